@@ -0,0 +1,109 @@
+import { cloneDeep as _cloneDeep } from "lodash";
+
+import type { RecordType, StorageAdapter, ValueType } from "../types";
+
+/**
+ * MemoryAdapter is a {@link StorageAdapter} that keeps the key values in memory.
+ *
+ * Nothing is written to the disk, which makes it a good fit for tests
+ * and for ephemeral stores that don't need to outlive the process.
+ * The key values are copied on every load and save, so changing an object
+ * returned by `get()` never changes the stored key values.
+ *
+ * @example
+ *
+ * import { KeyValues, MemoryAdapter } from '@heliomarpm/kvs';
+ *
+ * const keyValues = new KeyValues({ adapter: new MemoryAdapter({ theme: 'dark' }) });
+ *
+ * await keyValues.get('theme');
+ * // output: 'dark'
+ *
+ * @category Adapters
+ */
+export class MemoryAdapter implements StorageAdapter {
+	/**
+	 * @internal
+	 */
+	private data?: ValueType;
+
+	/**
+	 * Creates a new in-memory storage.
+	 *
+	 * @param initial The key values the storage starts with.
+	 */
+	constructor(initial?: RecordType<ValueType>) {
+		if (initial) this.data = _cloneDeep(initial);
+	}
+
+	/**
+	 * Loads a copy of the key values, or an empty object if nothing was saved yet.
+	 *
+	 * @returns A promise which resolves with the key values.
+	 */
+	async load<T extends ValueType>(): Promise<T> {
+		return this.loadSync<T>();
+	}
+
+	/**
+	 * Loads a copy of the key values synchronously, or an empty object if nothing was saved yet.
+	 *
+	 * @returns The key values.
+	 */
+	loadSync<T extends ValueType>(): T {
+		return _cloneDeep(this.data ?? {}) as T;
+	}
+
+	/**
+	 * Saves a copy of the key values.
+	 *
+	 * @param obj The key values to save.
+	 * @returns A promise which resolves when the key values have been saved.
+	 */
+	async save<T>(obj: T): Promise<void> {
+		this.saveSync(obj);
+	}
+
+	/**
+	 * Saves a copy of the key values synchronously.
+	 *
+	 * @param obj The key values to save.
+	 */
+	saveSync<T>(obj: T): void {
+		this.data = _cloneDeep(obj) as ValueType;
+	}
+
+	/**
+	 * Checks if any key values were saved.
+	 *
+	 * @returns A promise which resolves to `true` if key values were saved, else `false`.
+	 */
+	async exists(): Promise<boolean> {
+		return this.existsSync();
+	}
+
+	/**
+	 * Checks synchronously if any key values were saved.
+	 *
+	 * @returns `true` if key values were saved, else `false`.
+	 */
+	existsSync(): boolean {
+		return this.data !== undefined;
+	}
+
+	/**
+	 * Deletes the saved key values.
+	 *
+	 * @returns A promise which resolves when the key values have been deleted.
+	 */
+	async delete(): Promise<void> {
+		this.deleteSync();
+	}
+
+	/**
+	 * Deletes the saved key values synchronously.
+	 */
+	deleteSync(): void {
+		this.data = undefined;
+	}
+}
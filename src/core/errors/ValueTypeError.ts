@@ -0,0 +1,56 @@
+import type { KeyPath } from "../types";
+
+/**
+ * ValueTypeError is thrown when an operation finds a value of the wrong type at a key path,
+ * e.g. when incrementing a string or pushing to an object.
+ *
+ * @example
+ *
+ * import { ValueTypeError } from '@heliomarpm/kvs';
+ *
+ * try {
+ * 	await keyValues.increment('color.name');
+ * } catch (error) {
+ * 	if (error instanceof ValueTypeError) {
+ * 		console.log(error.keyPath, error.expected, error.actual);
+ * 		// output: 'color.name' 'number' 'string'
+ * 	}
+ * }
+ *
+ * @category Errors
+ */
+export class ValueTypeError extends TypeError {
+	/**
+	 * The key path of the value, in dot notation.
+	 */
+	readonly keyPath: string;
+
+	/**
+	 * The type the operation expected.
+	 */
+	readonly expected: string;
+
+	/**
+	 * The type of the value found at the key path: `"array"`, `"null"`, or the result of `typeof`.
+	 */
+	readonly actual: string;
+
+	/**
+	 * Creates an instance of ValueTypeError.
+	 *
+	 * @param operation The name of the operation that failed.
+	 * @param keyPath The key path of the value.
+	 * @param expected The type the operation expected.
+	 * @param value The value found at the key path.
+	 */
+	constructor(operation: string, keyPath: KeyPath, expected: string, value: unknown) {
+		const path = Array.isArray(keyPath) ? keyPath.join(".") : keyPath;
+		const actual = Array.isArray(value) ? "array" : value === null ? "null" : typeof value;
+
+		super(`Failed to ${operation}: expected ${expected} at "${path}" but found ${actual}`);
+		this.name = "ValueTypeError";
+		this.keyPath = path;
+		this.expected = expected;
+		this.actual = actual;
+	}
+}
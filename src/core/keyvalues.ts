@@ -1,7 +1,63 @@
-import { get as _get, has as _has, set as _set, unset as _unset } from "lodash";
+import path from "node:path";
 
-import type { KeyPath, Options, RecordType, ValueType } from "./types";
-import { DEFAULT_DIR_NAME, DEFAULT_FILE_NAME, JsonFileHelper } from "./utils";
+import {
+	cloneDeep as _cloneDeep,
+	get as _get,
+	has as _has,
+	isEmpty as _isEmpty,
+	isEqual as _isEqual,
+	isPlainObject as _isPlainObject,
+	mergeWith as _mergeWith,
+	omit as _omit,
+	set as _set,
+	toPath as _toPath,
+	unionWith as _unionWith,
+	unset as _unset,
+} from "lodash";
+
+import type {
+	AnyChangeCallback,
+	ChangeCallback,
+	EnumerateOptions,
+	KeyPath,
+	KeyPathItem,
+	KeyPathOf,
+	KeyPathValue,
+	Options,
+	RecordType,
+	SchemaEntries,
+	SchemaType,
+	Scope,
+	SetOptions,
+	SnapshotInfo,
+	StorageAdapter,
+	Transaction,
+	Unsubscribe,
+	ValueType,
+	WatchOptions,
+} from "./types";
+import {
+	ChangeEmitter,
+	DEFAULT_DIR_NAME,
+	DEFAULT_FILE_NAME,
+	enqueueWrite,
+	FileLock,
+	FileWatcher,
+	findKeyPaths,
+	hasExpiredKeys,
+	INTERNAL_KEY,
+	JsonFileHelper,
+	listEntries,
+	Migrator,
+	outsideWriteQueue,
+	removeExpiredKeys,
+	SchemaValidator,
+	SnapshotStore,
+	setExpiration,
+	toArray,
+	toBoolean,
+	toNumber,
+} from "./utils";
 
 /** @internal */
 const defaultOptions: Options = {
@@ -55,9 +111,42 @@ const defaultOptions: Options = {
  * // Remove a key-value pair
  * await keyValues.unset('color.name');
  *
+ * @typeParam S The schema of the key values. When given, key paths are checked against it and
+ * values are typed after it; without it, any key path and value type is accepted.
+ *
+ * @example
+ *
+ * type Settings = { window: { width: number; height: number }; theme: "dark" | "light" };
+ *
+ * const settings = new KeyValues<Settings>();
+ * const width = await settings.get('window.width'); // number
+ * await settings.set('theme', 'blue'); // type error
+ *
  * @category Core
  */
-export class KeyValues {
+export class KeyValues<S = any> {
+	/**
+	 * The instances holding pending key values, keyed by the storage they share.
+	 * @internal
+	 */
+	private static readonly deferred = new Map<string | StorageAdapter, Set<KeyValues>>();
+
+	/**
+	 * Writes the pending key values of every instance when the process exits, ignoring any error.
+	 * @internal
+	 */
+	private static readonly flushOnExit = (): void => {
+		for (const instances of [...KeyValues.deferred.values()]) {
+			for (const instance of [...instances]) {
+				try {
+					instance.flushSync();
+				} catch {
+					// The process is exiting, there is nobody left to report the error to
+				}
+			}
+		}
+	};
+
 	/**
 	 * @internal
 	 */
@@ -70,10 +159,69 @@ export class KeyValues {
 	 */
 	private jsonHelper: JsonFileHelper;
 
+	/**
+	 * @internal
+	 */
+	private adapter: StorageAdapter;
+
+	/**
+	 * @internal
+	 */
+	private fileLock: FileLock;
+
+	/**
+	 * @internal
+	 */
+	private emitter = new ChangeEmitter();
+
+	/**
+	 * @internal
+	 */
+	private snapshots: SnapshotStore;
+
+	/**
+	 * @internal
+	 */
+	private validator?: SchemaValidator;
+
+	/**
+	 * @internal
+	 */
+	private migrator?: Migrator;
+
+	/**
+	 * Whether or not the pending migrations have already been run by this instance.
+	 * @internal
+	 */
+	private migrated = false;
+
+	/**
+	 * @internal
+	 */
+	private watcher?: FileWatcher;
+
+	/**
+	 * The last known key values while watching the file.
+	 * @internal
+	 */
+	private watched?: ValueType;
+
+	/**
+	 * The key values saved while the `writeDelay` option is set, not written to the storage yet.
+	 * @internal
+	 */
+	private pending?: ValueType;
+
+	/**
+	 * The timer writing the pending key values once the `writeDelay` has elapsed.
+	 * @internal
+	 */
+	private flushTimer?: NodeJS.Timeout;
+
 	/**
 	 * Sets the configuration for KeyValues Storage's.
 	 *
-	 * To reset to defaults, use [`reset()`].
+	 * To reset to defaults, use [`resetOptions()`].
 	 *
 	 * ```js
 	 * Defaults:
@@ -97,6 +245,11 @@ export class KeyValues {
 		if (options) this.options = { ...this.options, ...options };
 
 		this.jsonHelper = new JsonFileHelper(this.options);
+		this.adapter = this.options.adapter ?? this.jsonHelper;
+		this.fileLock = new FileLock(this.file(), typeof this.options.lock === "object" ? this.options.lock : undefined);
+		this.snapshots = new SnapshotStore(this.file(), this.options);
+		if (this.options.schema) this.validator = new SchemaValidator(this.options.schema);
+		if (this.options.migrations) this.migrator = new Migrator(this.options.migrations);
 	}
 
 	/**
@@ -149,6 +302,319 @@ export class KeyValues {
 		this.options = { ...defaultOptions };
 	}
 
+	/**
+	 * Re-encrypts the keyvalues file with a new encryption key,
+	 * which is used by this instance from then on.
+	 * Its backups and snapshots are re-encrypted as well, so they can still be restored.
+	 *
+	 * The file must be readable with the current `encryptionKey` option.
+	 * If that option is not set, the plain file is encrypted for the first time.
+	 *
+	 * @param newKey The new encryption key.
+	 * @returns A promise which resolves when the file has been re-encrypted.
+	 * @example
+	 *
+	 * ```js
+	 * const keyValues = new KeyValues({ encryptionKey: oldKey });
+	 * await keyValues.rotateEncryptionKey(newKey);
+	 * ```
+	 *
+	 * @category Auxiliary Methods
+	 */
+	async rotateEncryptionKey(newKey: string | Buffer): Promise<void> {
+		return this.enqueue(async () => {
+			const obj = await this.load();
+			const oldKey = this.options.encryptionKey;
+
+			this.options.encryptionKey = newKey;
+			try {
+				await this.adapter.save(obj);
+			} catch (error) {
+				this.options.encryptionKey = oldKey;
+				throw error;
+			}
+
+			await this.jsonHelper.reencryptBackups(oldKey);
+			await this.snapshots.reencrypt(oldKey);
+		});
+	}
+
+	/**
+	 * Writes the changes kept in memory by the `writeDelay` option to the storage now,
+	 * instead of waiting for the delay to elapse. Does nothing if there are none.
+	 *
+	 * _For sync method, use_ [`flushSync()`].
+	 *
+	 * @returns A promise which resolves when the pending changes have been written.
+	 * @example
+	 *
+	 * ```js
+	 * const keyValues = new KeyValues({ writeDelay: 500 });
+	 *
+	 * await keyValues.set('volume', 42); // kept in memory
+	 * await keyValues.flush(); // written to the file
+	 * ```
+	 *
+	 * @category Auxiliary Methods
+	 */
+	async flush(): Promise<void> {
+		return this.enqueue(() => this.writePending());
+	}
+
+	/**
+	 * Writes the changes kept in memory by the `writeDelay` option to the storage synchronously,
+	 * instead of waiting for the delay to elapse. Does nothing if there are none.
+	 *
+	 * _For async method, use_ [`flush()`].
+	 *
+	 * @example
+	 *
+	 * ```js
+	 * keyValues.setSync('volume', 42); // kept in memory
+	 * keyValues.flushSync(); // written to the file
+	 * ```
+	 *
+	 * @category Auxiliary Methods
+	 */
+	flushSync(): void {
+		this.exclusiveSync(() => this.writePendingSync());
+	}
+
+	/**
+	 * Saves a named snapshot of the key values, replacing any snapshot with the same name.
+	 *
+	 * Snapshots are stored in a `<file>.snapshots` directory next to the keyvalues file,
+	 * in the same format and with the same encryption, even when a custom `adapter` is set.
+	 *
+	 * @param name The name of the snapshot, made of letters, digits, `_`, `-` and `.`.
+	 * Defaults to the current time, e.g. `2026-10-19T13-08-01.123Z`.
+	 * @returns A promise which resolves with the name of the snapshot.
+	 * @example
+	 *
+	 * Checkpoint the key values before a risky operation.
+	 * ```js
+	 * await keyValues.snapshot('before-import');
+	 * ```
+	 *
+	 * @category Snapshot Methods
+	 */
+	async snapshot(name?: string): Promise<string> {
+		return this.enqueue(async () => {
+			const snapshotName = name ?? new Date().toISOString().replace(/:/g, "-");
+
+			await this.snapshots.save(snapshotName, await this.load());
+			return snapshotName;
+		});
+	}
+
+	/**
+	 * Lists the snapshots, from the oldest to the newest.
+	 *
+	 * @returns A promise which resolves with the name and creation time of each snapshot.
+	 * @example
+	 *
+	 * ```js
+	 * await keyValues.listSnapshots();
+	 * // => [{ name: 'before-import', createdAt: 2026-10-19T13:08:01.123Z }]
+	 * ```
+	 *
+	 * @category Snapshot Methods
+	 * @see {@link SnapshotInfo}
+	 */
+	async listSnapshots(): Promise<SnapshotInfo[]> {
+		return this.snapshots.list();
+	}
+
+	/**
+	 * Replaces the key values with a snapshot, notifying the subscribers about what changed.
+	 *
+	 * The snapshot is saved like any other change, atomically if the `atomicSave`
+	 * option is enabled, and migrated on the next read if it was taken at an older version.
+	 *
+	 * @param name The name of the snapshot.
+	 * @returns A promise which resolves when the snapshot has been restored.
+	 * @example
+	 *
+	 * Roll back a failed import.
+	 * ```js
+	 * await keyValues.restoreSnapshot('before-import');
+	 * ```
+	 *
+	 * @category Snapshot Methods
+	 */
+	async restoreSnapshot(name: string): Promise<void> {
+		return this.enqueue(async () => {
+			const data = await this.snapshots.load(name);
+			const previous = await this.loadStored().catch(() => undefined);
+
+			await this.save(data);
+			this.migrated = false;
+			this.notify(data, previous);
+		});
+	}
+
+	/**
+	 * Deletes a snapshot.
+	 *
+	 * @param name The name of the snapshot.
+	 * @returns A promise which resolves with `true` if the snapshot existed, else `false`.
+	 * @example
+	 *
+	 * ```js
+	 * await keyValues.deleteSnapshot('before-import');
+	 * // => true
+	 * ```
+	 *
+	 * @category Snapshot Methods
+	 */
+	async deleteSnapshot(name: string): Promise<boolean> {
+		return this.snapshots.delete(name);
+	}
+
+	/**
+	 * Runs a function while holding the advisory lock on the keyvalues file,
+	 * so a multi-step update is not interleaved with changes made by this
+	 * or any other process.
+	 *
+	 * The lock is held even if the `lock` option is disabled, and calls to
+	 * `set`/`unset` made inside the function don't wait for it.
+	 * The lock is reentrant per process, not per async context: while it is held,
+	 * `*Sync` calls made anywhere else in this process don't wait for it either.
+	 *
+	 * @param fn The function to run.
+	 * @returns A promise which resolves with the value returned by `fn`.
+	 * @example
+	 *
+	 * Move a value to another key path.
+	 * ```js
+	 * await keyValues.withLock(async () => {
+	 * 	const name = await keyValues.get('color.name');
+	 * 	await keyValues.unset('color.name');
+	 * 	await keyValues.set('theme.color', name);
+	 * });
+	 * ```
+	 *
+	 * @category Auxiliary Methods
+	 * @see {@link LockOptions}
+	 */
+	async withLock<R>(fn: () => R | Promise<R>): Promise<R> {
+		return enqueueWrite(this.queueKey(), () => this.fileLock.run(async () => fn()));
+	}
+
+	/**
+	 * Returns a scope over the key values below the given key path, where every key path
+	 * is relative to the prefix. Reads and writes go through this instance.
+	 *
+	 * @param keyPath The key path prefix of the scope.
+	 * @returns The scope.
+	 * @throws {Error} If the key path is empty.
+	 * @example
+	 *
+	 * ```js
+	 * const markdown = keyValues.scope('plugins.markdown');
+	 *
+	 * await markdown.set('enabled', true);
+	 * markdown.getSync();
+	 * // => { enabled: true }
+	 *
+	 * await markdown.unset(); // removes "plugins.markdown" only
+	 * ```
+	 *
+	 * @category Auxiliary Methods
+	 */
+	scope(keyPath: KeyPathOf<S>): Scope;
+
+	scope(keyPath: KeyPath): Scope {
+		const prefix = _toPath(keyPath);
+		if (prefix.length === 0) throw new Error("Invalid scope: the key path is empty");
+
+		return this.createScope(prefix);
+	}
+
+	/**
+	 * Runs several operations on a working copy of the key values, loaded once,
+	 * and saves the result in a single write, or discards it if the function throws.
+	 *
+	 * Use the operations of `tx` inside the function, not the methods of this instance,
+	 * whose changes would be overwritten when the transaction is saved.
+	 *
+	 * _For sync method, use_ [`transactionSync()`].
+	 *
+	 * @param fn The function applying the operations.
+	 * @returns A promise which resolves with the value returned by `fn`, once the changes have been saved.
+	 * @example
+	 *
+	 * Move a value to another key path.
+	 * ```js
+	 * await keyValues.transaction(async (tx) => {
+	 * 	tx.set('theme.color', tx.get('color.name'));
+	 * 	tx.unset('color.name');
+	 * });
+	 * ```
+	 *
+	 * @category Auxiliary Methods
+	 * @see {@link Transaction}
+	 */
+	async transaction<R>(fn: (tx: Transaction) => R | Promise<R>): Promise<R> {
+		return this.enqueue(async () => {
+			const obj = await this.loadForUpdate();
+			const previous = this.emitter.snapshot(obj);
+			const draft = { data: obj, changed: false };
+
+			const result = await fn(this.createTransaction(draft));
+
+			if (draft.changed) {
+				await this.save(draft.data);
+				this.notify(draft.data, previous);
+			}
+			return result;
+		});
+	}
+
+	/**
+	 * Runs several operations on a working copy of the key values, loaded once,
+	 * and saves the result synchronously in a single write, or discards it if the function throws.
+	 *
+	 * Use the operations of `tx` inside the function, not the methods of this instance,
+	 * whose changes would be overwritten when the transaction is saved.
+	 *
+	 * _For async method, use_ [`transaction()`].
+	 *
+	 * @param fn The synchronous function applying the operations.
+	 * @returns The value returned by `fn`, once the changes have been saved.
+	 * @example
+	 *
+	 * Move a value to another key path.
+	 * ```js
+	 * keyValues.transactionSync((tx) => {
+	 * 	tx.set('theme.color', tx.get('color.name'));
+	 * 	tx.unset('color.name');
+	 * });
+	 * ```
+	 *
+	 * @category Auxiliary Methods
+	 * @see {@link Transaction}
+	 */
+	transactionSync<R>(fn: (tx: Transaction) => R): R {
+		return this.exclusiveSync(() => {
+			const obj = this.loadForUpdateSync();
+			const previous = this.emitter.snapshot(obj);
+			const draft = { data: obj, changed: false };
+
+			const result = fn(this.createTransaction(draft));
+			if (result instanceof Promise) {
+				result.catch(() => undefined);
+				throw new Error("Failed to run transaction: transactionSync() requires a synchronous function");
+			}
+
+			if (draft.changed) {
+				this.saveSync(draft.data);
+				this.notify(draft.data, previous);
+			}
+			return result;
+		});
+	}
+
 	/**
 	 * Sets all key values.
 	 *
@@ -165,7 +631,7 @@ export class KeyValues {
 	 *
 	 * @category Set Methods
 	 */
-	async set<T extends ValueType>(obj: RecordType<T>): Promise<void>;
+	async set<T extends ValueType>(obj: SchemaType<S, RecordType<T>>): Promise<void>;
 
 	/**
 	 * Sets the value at the given key path.
@@ -205,24 +671,40 @@ export class KeyValues {
 	 * ```js
 	 * await keyValues.set('color.code', { rgb: [16, 31, 134], hex: '#101F86' });
 	 * ```
+	 * @example
+	 *
+	 * Set a value that expires in one hour.
+	 * ```js
+	 * await keyValues.set('session.token', 'abc123', { ttl: 60 * 60 * 1000 });
+	 * ```
 	 *
 	 * @category Set Methods
+	 * @see {@link SetOptions}
 	 */
-	async set<T extends ValueType>(keyPath: KeyPath, value: T): Promise<void>;
+	async set<T extends ValueType = never, P extends KeyPathOf<S> = KeyPathOf<S>>(keyPath: P, value: KeyPathValue<S, P, T>, options?: SetOptions): Promise<void>;
 
-	async set<T extends ValueType>(...args: [RecordType<T>] | [KeyPath, T]): Promise<void> {
-		if (args.length === 1) {
-			const [value] = args;
+	async set<T extends ValueType>(...args: [SchemaType<S, RecordType<T>>] | [KeyPath, T, SetOptions?]): Promise<void> {
+		return this.enqueue(async () => {
+			if (args.length === 1) {
+				const [value] = args;
+				const obj = await this.loadForUpdate();
+				const next = Migrator.keepVersion(obj, value as ValueType);
 
-			return this.jsonHelper.saveKeyValues(value);
-		}
+				await this.save(next);
+				this.notify(next, obj);
+				return;
+			}
 
-		const [keyPath, value] = args;
-		const obj = await this.jsonHelper.loadKeyValues<T>();
+			const [keyPath, value, options] = args;
+			const obj = await this.loadForUpdate<T>();
+			const previous = this.emitter.snapshot(obj);
 
-		_set(obj as object, keyPath, value);
+			_set(obj as object, keyPath, value);
+			setExpiration(obj, keyPath, options?.ttl);
 
-		return this.jsonHelper.saveKeyValues(obj);
+			await this.save(obj);
+			this.notify(obj, previous);
+		});
 	}
 
 	/**
@@ -240,7 +722,7 @@ export class KeyValues {
 	 *
 	 * @category Set Methods
 	 */
-	setSync<T extends ValueType>(obj: RecordType<T>): void;
+	setSync<T extends ValueType>(obj: SchemaType<S, RecordType<T>>): void;
 
 	/**
 	 * Sets the value at the given key path.
@@ -278,394 +760,598 @@ export class KeyValues {
 	 * ```js
 	 * keyValues.setSync('color.code', { rgb: [16, 31, 134], hex: '#101F86' });
 	 * ```
+	 * @example
+	 *
+	 * Set a value that expires in one hour.
+	 * ```js
+	 * keyValues.setSync('session.token', 'abc123', { ttl: 60 * 60 * 1000 });
+	 * ```
 	 *
 	 * @category Set Methods
+	 * @see {@link SetOptions}
 	 */
-	setSync<T extends ValueType>(keyPath: KeyPath, value: T): void;
+	setSync<T extends ValueType = never, P extends KeyPathOf<S> = KeyPathOf<S>>(keyPath: P, value: KeyPathValue<S, P, T>, options?: SetOptions): void;
 
-	setSync<T extends ValueType>(...args: [RecordType<T>] | [KeyPath, T]): void {
-		if (args.length === 1) {
-			const [value] = args;
+	setSync<T extends ValueType>(...args: [SchemaType<S, RecordType<T>>] | [KeyPath, T, SetOptions?]): void {
+		this.exclusiveSync(() => {
+			if (args.length === 1) {
+				const [value] = args;
+				const obj = this.loadForUpdateSync();
+				const next = Migrator.keepVersion(obj, value as ValueType);
 
-			this.jsonHelper.saveKeyValuesSync(value);
-		} else {
-			const [keyPath, value] = args;
-			const obj = this.jsonHelper.loadKeyValuesSync<T>();
+				this.saveSync(next);
+				this.notify(next, obj);
+			} else {
+				const [keyPath, value, options] = args;
+				const obj = this.loadForUpdateSync<T>();
+				const previous = this.emitter.snapshot(obj);
 
-			_set(obj as object, keyPath, value);
+				_set(obj as object, keyPath, value);
+				setExpiration(obj, keyPath, options?.ttl);
 
-			this.jsonHelper.saveKeyValuesSync(obj);
-		}
+				this.saveSync(obj);
+				this.notify(obj, previous);
+			}
+		});
 	}
 
 	/**
-	 * Gets all key values.
+	 * Sets the values at many key paths in a single write, merging them into the
+	 * existing key values, unlike [`set(obj)`] which replaces all key values.
 	 *
-	 * _For sync method, use_ [`getSync()`].
+	 * _For sync method, use_ [`setManySync()`].
 	 *
-	 * @returns A promise which resolves with all key values.
+	 * @param entries The values to set, keyed by key path, or as `[keyPath, value]` pairs.
+	 * @returns A promise which resolves when the values have been set.
 	 * @example
 	 *
-	 * Gets all key values.
 	 * ```js
-	 * const obj = await get();
+	 * await keyValues.setMany({ 'color.name': 'sapphire', 'window.width': 800 });
+	 * await keyValues.setMany([[['color', 'hue'], 'bluish']]);
 	 * ```
 	 *
-	 * @category Get Methods
+	 * @category Set Methods
 	 */
-	async get<T extends ValueType>(): Promise<T>;
+	async setMany(entries: SchemaEntries<S>): Promise<void> {
+		return this.enqueue(async () => {
+			const obj = await this.loadForUpdate();
+			const previous = this.emitter.snapshot(obj);
+
+			for (const [keyPath, value] of this.toEntries(entries)) {
+				_set(obj as object, keyPath, value);
+				setExpiration(obj, keyPath);
+			}
+
+			await this.save(obj);
+			this.notify(obj, previous);
+		});
+	}
 
 	/**
-	 * Gets the value at the given key path.
+	 * Sets the values at many key paths synchronously in a single write, merging them
+	 * into the existing key values, unlike [`setSync(obj)`] which replaces all key values.
 	 *
-	 * _For sync method, use_ [`getSync()`].
+	 * _For async method, use_ [`setMany()`].
 	 *
-	 * @param keyPath The key path of the property.
-	 * @returns A promise which resolves with the value at the given key path.
+	 * @param entries The values to set, keyed by key path, or as `[keyPath, value]` pairs.
 	 * @example
 	 *
-	 * Get the value at `color.name`.
 	 * ```js
-	 * // Given:
-	 * {
-	 * 	"color": {
-	 * 		"name": "cerulean",
-	 *		"code": {
-	 *			"rgb": [0, 179, 230],
-	 *			"hex": "#003BE6"
-	 *		}
-	 *	}
-	 * }
-	 *
-	 * const value = await keyValues.get('color.name');
-	 * // => "cerulean"
+	 * keyValues.setManySync({ 'color.name': 'sapphire', 'window.width': 800 });
+	 * keyValues.setManySync([[['color', 'hue'], 'bluish']]);
 	 * ```
-	 * @example
 	 *
-	 * Get the value at `color.code.hex`.
-	 * ```js
-	 * const hex = await keyValues.get('color.color.hex');
-	 * // => "#003BE6"
-	 * ```
-	 * @example
+	 * @category Set Methods
+	 */
+	setManySync(entries: SchemaEntries<S>): void {
+		this.exclusiveSync(() => {
+			const obj = this.loadForUpdateSync();
+			const previous = this.emitter.snapshot(obj);
+
+			for (const [keyPath, value] of this.toEntries(entries)) {
+				_set(obj as object, keyPath, value);
+				setExpiration(obj, keyPath);
+			}
+
+			this.saveSync(obj);
+			this.notify(obj, previous);
+		});
+	}
+
+	/**
+	 * Sets the value at every key path matching a pattern, in a single write.
 	 *
-	 * Get the value not existent at `color.hue`.
-	 * ```js
-	 * const value = await keyValues.get(['color', 'hue']);
-	 * // => undefined
-	 * ```
+	 * In the pattern, `*` matches any single key and `**` matches any number of keys, including none.
+	 *
+	 * _For sync method, use_ [`setMatchingSync()`].
+	 *
+	 * @param pattern The key path pattern.
+	 * @param value The value to set, or a function receiving the current value and its key path in dot notation, and returning the value to set.
+	 * @returns A promise which resolves with the key paths of the values set, in dot notation.
 	 * @example
 	 *
-	 * Get the value at `color.code.rgb[1]`.
+	 * Disable every plugin.
 	 * ```js
-	 * const value = await keyValues.get('color.code.rgb[1]');
-	 * // => 179
+	 * await keyValues.setMatching('plugins.**.enabled', false);
+	 * // => ['plugins.git.enabled', 'plugins.lint.eslint.enabled']
 	 * ```
 	 *
-	 * @category Get Methods
+	 * @category Set Methods
 	 */
-	async get<T extends ValueType>(keyPath: KeyPath): Promise<T>;
+	async setMatching<T extends ValueType>(pattern: KeyPath, value: T | ((current: T, keyPath: string) => T)): Promise<string[]> {
+		return this.enqueue(async () => {
+			const obj = await this.loadForUpdate();
+			const previous = this.emitter.snapshot(obj);
+			const keyPaths = this.setAll(obj, findKeyPaths(this.view(obj), pattern), value);
 
-	async get<T extends ValueType>(keyPath?: KeyPath): Promise<T> {
-		try {
-			const obj = await this.jsonHelper.loadKeyValues<T>();
-			if (keyPath) {
-				return _get(obj, keyPath);
-			}
-			return obj;
-		} catch (error) {
-			// Add proper error handling
-			if (error instanceof Error) {
-				throw new Error(`Failed to get value: ${error.message}`);
+			if (keyPaths.length) {
+				await this.save(obj);
+				this.notify(obj, previous);
 			}
-
-			throw new Error("Failed to get value: Unknown error");
-		}
+			return keyPaths;
+		});
 	}
 
 	/**
-	 * Gets all key values.
+	 * Sets the value at every key path matching a pattern, synchronously in a single write.
 	 *
-	 * _For async method, use_ [`get()`].
+	 * In the pattern, `*` matches any single key and `**` matches any number of keys, including none.
 	 *
-	 * @returns All key values.
+	 * _For async method, use_ [`setMatching()`].
+	 *
+	 * @param pattern The key path pattern.
+	 * @param value The value to set, or a function receiving the current value and its key path in dot notation, and returning the value to set.
+	 * @returns The key paths of the values set, in dot notation.
 	 * @example
 	 *
-	 * Gets all key values.
+	 * Disable every plugin.
 	 * ```js
-	 * const obj = getSync();
+	 * keyValues.setMatchingSync('plugins.**.enabled', false);
+	 * // => ['plugins.git.enabled', 'plugins.lint.eslint.enabled']
 	 * ```
 	 *
-	 * @category Get Methods
+	 * @category Set Methods
 	 */
-	getSync<T extends ValueType>(): T;
+	setMatchingSync<T extends ValueType>(pattern: KeyPath, value: T | ((current: T, keyPath: string) => T)): string[] {
+		return this.exclusiveSync(() => {
+			const obj = this.loadForUpdateSync();
+			const previous = this.emitter.snapshot(obj);
+			const keyPaths = this.setAll(obj, findKeyPaths(this.view(obj), pattern), value);
+
+			if (keyPaths.length) {
+				this.saveSync(obj);
+				this.notify(obj, previous);
+			}
+			return keyPaths;
+		});
+	}
 
 	/**
-	 * Gets the value at the given key path.
+	 * Replaces the value at the given key path with the value returned by an updater,
+	 * reading and writing the key values once, with no other change in between.
 	 *
-	 * _For async method, use_ [`get()`].
+	 * The write is skipped if the updater returns a value equal to the current one.
+	 * The time to live of the value, if any, is kept.
+	 *
+	 * _For sync method, use_ [`updateSync()`].
 	 *
 	 * @param keyPath The key path of the property.
-	 * @returns The value at the given key path.
+	 * @param updater A function, possibly async, receiving a copy of the current value, or `undefined` if there is none, and returning the new value.
+	 * @returns A promise which resolves with the new value.
 	 * @example
 	 *
-	 * Get the value at `color.name`.
+	 * Increment a counter.
 	 * ```js
-	 * // Given:
-	 * {
-	 * 	"color": {
-	 *		"name": "cerulean",
-	 *		"code": {
-	 *			"rgb": [0, 179, 230],
-	 *			"hex": "#003BE6"
-	 *		}
-	 *	}
-	 * }
-	 *
-	 * const value = keyValues.getSync('color.name');
-	 * // => "cerulean"
+	 * await keyValues.update('launches', (count = 0) => count + 1);
+	 * // => 1
 	 * ```
-	 * @example
 	 *
-	 * Get the value at `color.code.hex`.
-	 * ```js
-	 * const hex = keyValues.getSync('color.color.hex');
-	 * // => "#003BE6"
-	 * ```
-	 * @example
+	 * @category Set Methods
+	 */
+	async update<T extends ValueType = never, P extends KeyPathOf<S> = KeyPathOf<S>>(
+		keyPath: P,
+		updater: (current: KeyPathValue<S, P, T> | undefined) => KeyPathValue<S, P, T> | Promise<KeyPathValue<S, P, T>>
+	): Promise<KeyPathValue<S, P, T>>;
+
+	async update<T extends ValueType>(keyPath: KeyPath, updater: (current: T | undefined) => T | Promise<T>): Promise<T> {
+		return this.enqueue(async () => {
+			const obj = await this.loadForUpdate();
+			const current: T | undefined = _get(this.view(obj), keyPath);
+			const next = await updater(_cloneDeep(current));
+
+			if (!_isEqual(next, current)) {
+				const previous = this.emitter.snapshot(obj);
+				_set(obj as object, keyPath, next);
+
+				await this.save(obj);
+				this.notify(obj, previous);
+			}
+			return next;
+		});
+	}
+
+	/**
+	 * Replaces the value at the given key path with the value returned by an updater,
+	 * reading and writing the key values synchronously once.
 	 *
-	 * Get the value at `color.hue`.
-	 * ```js
-	 * const h = 'hue';
-	 * const value = keyValues.getSync(['color', h]);
-	 * // => undefined
-	 * ```
-	 * @example
+	 * The write is skipped if the updater returns a value equal to the current one.
+	 * The time to live of the value, if any, is kept.
 	 *
-	 * Get the value at `color.code.rgb[1]`.
-	 * ```js
-	 * const h = 'hue';
-	 * const value = keyValues.getSync('color.code.rgb[1]');
-	 * // => 179
-	 * ```
+	 * _For async method, use_ [`update()`].
 	 *
+	 * @param keyPath The key path of the property.
+	 * @param updater A synchronous function receiving a copy of the current value, or `undefined` if there is none, and returning the new value.
+	 * @returns The new value.
 	 * @example
-	 * Get all values
+	 *
+	 * Append to a list.
 	 * ```js
-	 *  const values = keyValues.getSync();
+	 * keyValues.updateSync('recent', (files = []) => [...files, 'notes.txt']);
 	 * ```
 	 *
-	 * @category Get Methods
+	 * @category Set Methods
 	 */
-	getSync<T extends ValueType>(keyPath: KeyPath): T;
+	updateSync<T extends ValueType = never, P extends KeyPathOf<S> = KeyPathOf<S>>(
+		keyPath: P,
+		updater: (current: KeyPathValue<S, P, T> | undefined) => KeyPathValue<S, P, T>
+	): KeyPathValue<S, P, T>;
 
-	getSync<T extends ValueType>(keyPath?: KeyPath): T {
-		const obj = this.jsonHelper.loadKeyValuesSync<T>();
+	updateSync<T extends ValueType>(keyPath: KeyPath, updater: (current: T | undefined) => T): T {
+		return this.exclusiveSync(() => {
+			const obj = this.loadForUpdateSync();
+			const current: T | undefined = _get(this.view(obj), keyPath);
+			const next = updater(_cloneDeep(current));
 
-		if (keyPath) {
-			return _get(obj, keyPath);
-		}
+			if (next instanceof Promise) {
+				next.catch(() => undefined);
+				throw new Error("Failed to update value: updateSync() requires a synchronous updater");
+			}
 
-		return obj;
+			if (!_isEqual(next, current)) {
+				const previous = this.emitter.snapshot(obj);
+				_set(obj as object, keyPath, next);
+
+				this.saveSync(obj);
+				this.notify(obj, previous);
+			}
+			return next;
+		});
 	}
 
 	/**
-	 * Checks if the given key path exists.
-	 *
-	 * _For sync method, use_ [`hasSync()`].
-	 *
-	 * @param keyPath The key path to check.
-	 * @returns A promise which resolves to `true` if the `keyPath` exists, else `false`.
-	 * @example
+	 * Adds to the number at the given key path in a single read and write, starting from `0` if there is none.
 	 *
-	 * Check if the value at `color.name` exists.
-	 * ```js
-	 * // Given:
-	 * {
-	 * 	"color": {
-	 *		"name": "cerulean",
-	 *		"code": {
-	 *			"rgb": [0, 179, 230],
-	 *			"hex": "#003BE6"
-	 *		}
-	 *	}
-	 * }
+	 * _For sync method, use_ [`incrementSync()`].
 	 *
-	 * const exists = await keyValues.has('color.name');
-	 * // => true
-	 * ```
+	 * @param keyPath The key path of the property.
+	 * @param by The amount to add. Defaults to `1`.
+	 * @returns A promise which resolves with the new number.
+	 * @throws {ValueTypeError} If the current value is not a number.
 	 * @example
 	 *
-	 * Check if the value at `color.hue` exists.
-	 * ```js
-	 * const exists = await keyValues.has(['color', 'hue']);
-	 * // => false
-	 * ```
-	 *  @example
-	 *
-	 * Check if the value at `color.code.rgb[1]` exists.
 	 * ```js
-	 * const exists = await keyValues.has(color.code.rgb[1]);
-	 * // => true
+	 * await keyValues.increment('launches');
+	 * // => 1
+	 * await keyValues.increment('launches', 10);
+	 * // => 11
 	 * ```
 	 *
-	 * @category Has Methods
+	 * @category Set Methods
 	 */
-	async has(keyPath: KeyPath): Promise<boolean> {
-		const obj = await this.jsonHelper.loadKeyValues();
-		return _has(obj, keyPath);
+	async increment(keyPath: KeyPathOf<S>, by?: number): Promise<number>;
+
+	async increment(keyPath: KeyPath, by = 1): Promise<number> {
+		return this.untyped.update<number>(keyPath, (current) => toNumber("increment", keyPath, current, by) + by);
 	}
 
 	/**
-	 * Checks if the given key path exists.
+	 * Adds to the number at the given key path synchronously in a single read and write, starting from `0` if there is none.
 	 *
-	 * _For async method, use_ [`has()`].
+	 * _For async method, use_ [`increment()`].
 	 *
-	 * @param keyPath The key path to check.
-	 * @returns `true` if the `keyPath` exists, else `false`.
+	 * @param keyPath The key path of the property.
+	 * @param by The amount to add. Defaults to `1`.
+	 * @returns The new number.
+	 * @throws {ValueTypeError} If the current value is not a number.
 	 * @example
 	 *
-	 * Check if the value at `color.name` exists.
 	 * ```js
-	 * // Given:
-	 * {
-	 * 	"color": {
-	 *		"name": "cerulean",
-	 *		"code": {
-	 *			"rgb": [0, 179, 230],
-	 *			"hex": "#003BE6"
-	 *		}
-	 *	}
-	 * }
-	 *
-	 * const exists = keyValues.hasSync('color.name');
-	 * // => true
+	 * keyValues.incrementSync('launches');
+	 * // => 1
 	 * ```
-	 * @example
 	 *
-	 * Check if the value at `color.hue` exists.
-	 * ```js
-	 * const exists = keyValues.hasSync(['color', 'hue']);
-	 * // => false
-	 * ```
+	 * @category Set Methods
+	 */
+	incrementSync(keyPath: KeyPathOf<S>, by?: number): number;
+
+	incrementSync(keyPath: KeyPath, by = 1): number {
+		return this.untyped.updateSync<number>(keyPath, (current) => toNumber("increment", keyPath, current, by) + by);
+	}
+
+	/**
+	 * Subtracts from the number at the given key path in a single read and write, starting from `0` if there is none.
+	 *
+	 * _For sync method, use_ [`decrementSync()`].
+	 *
+	 * @param keyPath The key path of the property.
+	 * @param by The amount to subtract. Defaults to `1`.
+	 * @returns A promise which resolves with the new number.
+	 * @throws {ValueTypeError} If the current value is not a number.
 	 * @example
 	 *
-	 * Check if the value at `color.code.rgb[1]` exists.
 	 * ```js
-	 * const exists = keyValues.hasSync(color.code.rgb[1]);
-	 * // => true
+	 * await keyValues.decrement('credits', 5);
+	 * // => -5
 	 * ```
 	 *
-	 * @category Has Methods
+	 * @category Set Methods
 	 */
-	hasSync(keyPath: KeyPath): boolean {
-		const obj = this.jsonHelper.loadKeyValuesSync();
-		return _has(obj, keyPath);
+	async decrement(keyPath: KeyPathOf<S>, by?: number): Promise<number>;
+
+	async decrement(keyPath: KeyPath, by = 1): Promise<number> {
+		return this.untyped.update<number>(keyPath, (current) => toNumber("decrement", keyPath, current, by) - by);
 	}
 
 	/**
-	 * Unsets all key values.
+	 * Subtracts from the number at the given key path synchronously in a single read and write, starting from `0` if there is none.
 	 *
-	 * _For sync method, use_ [`unsetSync()`].
+	 * _For async method, use_ [`decrement()`].
 	 *
-	 * @returns A promise which resolves when the key values have been unset.
+	 * @param keyPath The key path of the property.
+	 * @param by The amount to subtract. Defaults to `1`.
+	 * @returns The new number.
+	 * @throws {ValueTypeError} If the current value is not a number.
 	 * @example
 	 *
-	 * Unsets all key values.
 	 * ```js
-	 * await keyValues.unset();
-	 * await keyValues.get();
-	 * // => undefined
+	 * keyValues.decrementSync('credits', 5);
+	 * // => -5
 	 * ```
 	 *
-	 * @category Unset Methods
+	 * @category Set Methods
 	 */
-	async unset(): Promise<boolean>;
+	decrementSync(keyPath: KeyPathOf<S>, by?: number): number;
+
+	decrementSync(keyPath: KeyPath, by = 1): number {
+		return this.untyped.updateSync<number>(keyPath, (current) => toNumber("decrement", keyPath, current, by) - by);
+	}
 
 	/**
-	 * Unsets the property at the given key path.
+	 * Appends items to the array at the given key path in a single read and write, creating the array if there is none.
+	 * Nothing is written if there is no array and no items to append.
 	 *
-	 * _For sync method, use_ [`unsetSync()`].
+	 * _For sync method, use_ [`pushSync()`].
 	 *
 	 * @param keyPath The key path of the property.
-	 * @returns A promise which resolves when the setting has been unset.
+	 * @param items The items to append.
+	 * @returns A promise which resolves with the new array.
+	 * @throws {ValueTypeError} If the current value is not an array.
 	 * @example
 	 *
-	 * Unset the property `color.name`.
 	 * ```js
-	 * // Given:
-	 * {
-	 * 	"color": {
-	 *		"name": "cerulean",
-	 *		"code": {
-	 *			"rgb": [0, 179, 230],
-	 *			"hex": "#003BE6"
-	 *		}
-	 *	}
-	 * }
-	 *
-	 * await keyValues.unset('color.name');
-	 * await keyValues.get('color.name');
-	 * // => undefined
+	 * await keyValues.push('recent', 'a.txt', 'b.txt');
+	 * // => ['a.txt', 'b.txt']
 	 * ```
+	 *
+	 * @category Set Methods
+	 */
+	async push<T extends ValueType = never, P extends KeyPathOf<S> = KeyPathOf<S>>(keyPath: P, ...items: Array<KeyPathItem<S, P, T>>): Promise<Array<KeyPathItem<S, P, T>>>;
+
+	async push<T extends ValueType>(keyPath: KeyPath, ...items: T[]): Promise<T[]> {
+		return (await this.untyped.update<T[]>(keyPath, (current) => this.unlessAbsent(current, [...(toArray("push", keyPath, current) as T[]), ...items]))) ?? [];
+	}
+
+	/**
+	 * Appends items to the array at the given key path synchronously in a single read and write, creating the array if there is none.
+	 * Nothing is written if there is no array and no items to append.
+	 *
+	 * _For async method, use_ [`push()`].
+	 *
+	 * @param keyPath The key path of the property.
+	 * @param items The items to append.
+	 * @returns The new array.
+	 * @throws {ValueTypeError} If the current value is not an array.
 	 * @example
 	 *
-	 * Unset the property `color.code.rgba[1]`.
 	 * ```js
-	 * await keyValues.unset('color.code.rgba[1]');
-	 * await keyValues.get('color.code.rgb');
-	 * // => [0, null, 230]
+	 * keyValues.pushSync('recent', 'a.txt', 'b.txt');
+	 * // => ['a.txt', 'b.txt']
 	 * ```
 	 *
-	 * @category Unset Methods
+	 * @category Set Methods
 	 */
-	async unset(keyPath: KeyPath): Promise<boolean>;
-
-	async unset(keyPath?: KeyPath): Promise<boolean> {
-		const obj = await this.jsonHelper.loadKeyValues();
-
-		if (JSON.stringify(obj) !== "{}") {
-			if (keyPath && _unset(obj, keyPath)) {
-				await this.jsonHelper.saveKeyValues(obj);
-			} else {
-				await this.jsonHelper.saveKeyValues({});
-			}
-			return true;
-		}
+	pushSync<T extends ValueType = never, P extends KeyPathOf<S> = KeyPathOf<S>>(keyPath: P, ...items: Array<KeyPathItem<S, P, T>>): Array<KeyPathItem<S, P, T>>;
 
-		return false;
+	pushSync<T extends ValueType>(keyPath: KeyPath, ...items: T[]): T[] {
+		return this.untyped.updateSync<T[]>(keyPath, (current) => this.unlessAbsent(current, [...(toArray("push", keyPath, current) as T[]), ...items])) ?? [];
 	}
 
 	/**
-	 * Unsets all key values.
+	 * Removes the items matching a predicate, or equal to a value, from the array at the given key path in a single read and write.
+	 * Nothing is written if there is no array.
 	 *
-	 * _For async method, use_ [`unset()`].
+	 * _For sync method, use_ [`pullSync()`].
 	 *
+	 * @param keyPath The key path of the property.
+	 * @param predicateOrValue A function returning `true` for the items to remove, or the value of the items to remove.
+	 * @returns A promise which resolves with the new array.
+	 * @throws {ValueTypeError} If the current value is not an array.
 	 * @example
 	 *
-	 * Unsets all key values.
 	 * ```js
-	 * keyValues.unsetSync();
+	 * await keyValues.pull('recent', 'a.txt');
+	 * await keyValues.pull('users', (user) => user.inactive);
 	 * ```
 	 *
-	 * @category Unset Methods
+	 * @category Set Methods
 	 */
-	unsetSync(): boolean;
+	async pull<T extends ValueType = never, P extends KeyPathOf<S> = KeyPathOf<S>>(
+		keyPath: P,
+		predicateOrValue: KeyPathItem<S, P, T> | ((item: KeyPathItem<S, P, T>) => boolean)
+	): Promise<Array<KeyPathItem<S, P, T>>>;
+
+	async pull<T extends ValueType>(keyPath: KeyPath, predicateOrValue: T | ((item: T) => boolean)): Promise<T[]> {
+		return (await this.untyped.update<T[]>(keyPath, (current) => this.unlessAbsent(current, this.pullItems(keyPath, current, predicateOrValue)))) ?? [];
+	}
 
 	/**
-	 * Unsets the property at the given key path.
+	 * Removes the items matching a predicate, or equal to a value, from the array at the given key path synchronously in a single read and write.
+	 * Nothing is written if there is no array.
 	 *
-	 * _For async method, use_ [`unset()`].
+	 * _For async method, use_ [`pull()`].
 	 *
 	 * @param keyPath The key path of the property.
+	 * @param predicateOrValue A function returning `true` for the items to remove, or the value of the items to remove.
+	 * @returns The new array.
+	 * @throws {ValueTypeError} If the current value is not an array.
 	 * @example
 	 *
-	 * Unset the property `color.name`.
 	 * ```js
-	 * // Given:
-	 * {
+	 * keyValues.pullSync('recent', 'a.txt');
+	 * keyValues.pullSync('users', (user) => user.inactive);
+	 * ```
+	 *
+	 * @category Set Methods
+	 */
+	pullSync<T extends ValueType = never, P extends KeyPathOf<S> = KeyPathOf<S>>(
+		keyPath: P,
+		predicateOrValue: KeyPathItem<S, P, T> | ((item: KeyPathItem<S, P, T>) => boolean)
+	): Array<KeyPathItem<S, P, T>>;
+
+	pullSync<T extends ValueType>(keyPath: KeyPath, predicateOrValue: T | ((item: T) => boolean)): T[] {
+		return this.untyped.updateSync<T[]>(keyPath, (current) => this.unlessAbsent(current, this.pullItems(keyPath, current, predicateOrValue))) ?? [];
+	}
+
+	/**
+	 * Appends the items not already present to the array at the given key path in a single read and write, creating the array if there is none.
+	 * Nothing is written if there is no array and no items to append.
+	 *
+	 * _For sync method, use_ [`addToSetSync()`].
+	 *
+	 * @param keyPath The key path of the property.
+	 * @param items The items to append, compared by value.
+	 * @returns A promise which resolves with the new array.
+	 * @throws {ValueTypeError} If the current value is not an array.
+	 * @example
+	 *
+	 * ```js
+	 * await keyValues.addToSet('tags', 'work', 'urgent');
+	 * await keyValues.addToSet('tags', 'work');
+	 * // => ['work', 'urgent']
+	 * ```
+	 *
+	 * @category Set Methods
+	 */
+	async addToSet<T extends ValueType = never, P extends KeyPathOf<S> = KeyPathOf<S>>(keyPath: P, ...items: Array<KeyPathItem<S, P, T>>): Promise<Array<KeyPathItem<S, P, T>>>;
+
+	async addToSet<T extends ValueType>(keyPath: KeyPath, ...items: T[]): Promise<T[]> {
+		return (await this.untyped.update<T[]>(keyPath, (current) => this.unlessAbsent(current, _unionWith(toArray("addToSet", keyPath, current) as T[], items, _isEqual)))) ?? [];
+	}
+
+	/**
+	 * Appends the items not already present to the array at the given key path synchronously in a single read and write, creating the array if there is none.
+	 * Nothing is written if there is no array and no items to append.
+	 *
+	 * _For async method, use_ [`addToSet()`].
+	 *
+	 * @param keyPath The key path of the property.
+	 * @param items The items to append, compared by value.
+	 * @returns The new array.
+	 * @throws {ValueTypeError} If the current value is not an array.
+	 * @example
+	 *
+	 * ```js
+	 * keyValues.addToSetSync('tags', 'work', 'urgent');
+	 * keyValues.addToSetSync('tags', 'work');
+	 * // => ['work', 'urgent']
+	 * ```
+	 *
+	 * @category Set Methods
+	 */
+	addToSetSync<T extends ValueType = never, P extends KeyPathOf<S> = KeyPathOf<S>>(keyPath: P, ...items: Array<KeyPathItem<S, P, T>>): Array<KeyPathItem<S, P, T>>;
+
+	addToSetSync<T extends ValueType>(keyPath: KeyPath, ...items: T[]): T[] {
+		return this.untyped.updateSync<T[]>(keyPath, (current) => this.unlessAbsent(current, _unionWith(toArray("addToSet", keyPath, current) as T[], items, _isEqual))) ?? [];
+	}
+
+	/**
+	 * Negates the boolean at the given key path in a single read and write, starting from `false` if there is none.
+	 *
+	 * _For sync method, use_ [`toggleSync()`].
+	 *
+	 * @param keyPath The key path of the property.
+	 * @returns A promise which resolves with the new boolean.
+	 * @throws {ValueTypeError} If the current value is not a boolean.
+	 * @example
+	 *
+	 * ```js
+	 * await keyValues.toggle('darkMode');
+	 * // => true
+	 * ```
+	 *
+	 * @category Set Methods
+	 */
+	async toggle(keyPath: KeyPathOf<S>): Promise<boolean>;
+
+	async toggle(keyPath: KeyPath): Promise<boolean> {
+		return this.untyped.update<boolean>(keyPath, (current) => !toBoolean("toggle", keyPath, current));
+	}
+
+	/**
+	 * Negates the boolean at the given key path synchronously in a single read and write, starting from `false` if there is none.
+	 *
+	 * _For async method, use_ [`toggle()`].
+	 *
+	 * @param keyPath The key path of the property.
+	 * @returns The new boolean.
+	 * @throws {ValueTypeError} If the current value is not a boolean.
+	 * @example
+	 *
+	 * ```js
+	 * keyValues.toggleSync('darkMode');
+	 * // => true
+	 * ```
+	 *
+	 * @category Set Methods
+	 */
+	toggleSync(keyPath: KeyPathOf<S>): boolean;
+
+	toggleSync(keyPath: KeyPath): boolean {
+		return this.untyped.updateSync<boolean>(keyPath, (current) => !toBoolean("toggle", keyPath, current));
+	}
+
+	/**
+	 * Gets all key values.
+	 *
+	 * _For sync method, use_ [`getSync()`].
+	 *
+	 * @returns A promise which resolves with all key values.
+	 * @example
+	 *
+	 * Gets all key values.
+	 * ```js
+	 * const obj = await get();
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	async get<T extends ValueType = never>(): Promise<KeyPathValue<S, [], T>>;
+
+	/**
+	 * Gets the value at the given key path.
+	 *
+	 * _For sync method, use_ [`getSync()`].
+	 *
+	 * @param keyPath The key path of the property.
+	 * @returns A promise which resolves with the value at the given key path.
+	 * @example
+	 *
+	 * Get the value at `color.name`.
+	 * ```js
+	 * // Given:
+	 * {
 	 * 	"color": {
-	 *		"name": "cerulean",
+	 * 		"name": "cerulean",
 	 *		"code": {
 	 *			"rgb": [0, 179, 230],
 	 *			"hex": "#003BE6"
@@ -673,37 +1359,1862 @@ export class KeyValues {
 	 *	}
 	 * }
 	 *
-	 * keyValues.unsetSync('color.name');
-	 * keyValues.getSync('color.name');
+	 * const value = await keyValues.get('color.name');
+	 * // => "cerulean"
+	 * ```
+	 * @example
+	 *
+	 * Get the value at `color.code.hex`.
+	 * ```js
+	 * const hex = await keyValues.get('color.color.hex');
+	 * // => "#003BE6"
+	 * ```
+	 * @example
+	 *
+	 * Get the value not existent at `color.hue`.
+	 * ```js
+	 * const value = await keyValues.get(['color', 'hue']);
 	 * // => undefined
 	 * ```
 	 * @example
 	 *
-	 * Unset the property `color.code.rgba[1]`.
+	 * Get the value at `color.code.rgb[1]`.
 	 * ```js
-	 * keyValues.unsetSync('color.code.rgba[1]');
-	 * keyValues.getSync('color.code.rgb');
-	 * // => [0, null, 230]
+	 * const value = await keyValues.get('color.code.rgb[1]');
+	 * // => 179
 	 * ```
 	 *
-	 * @category Unset Methods
+	 * @category Get Methods
 	 */
-	unsetSync(keyPath: KeyPath): boolean;
-
-	unsetSync(keyPath?: KeyPath): boolean {
-		const obj = this.jsonHelper.loadKeyValuesSync();
+	async get<T extends ValueType = never, P extends KeyPathOf<S> = KeyPathOf<S>>(keyPath: P): Promise<KeyPathValue<S, P, T>>;
 
-		if (JSON.stringify(obj) !== "{}") {
-			if (keyPath && _unset(obj, keyPath)) {
-				this.jsonHelper.saveKeyValuesSync(obj);
-			} else {
-				// Unset all keyValues by saving empty object.
-				this.jsonHelper.saveKeyValuesSync({});
+	async get<T extends ValueType>(keyPath?: KeyPath): Promise<T> {
+		try {
+			const obj = this.view(await this.load<T>());
+			if (keyPath) {
+				return _get(obj, keyPath);
+			}
+			return obj;
+		} catch (error) {
+			// Add proper error handling
+			if (error instanceof Error) {
+				throw new Error(`Failed to get value: ${error.message}`);
 			}
 
-			return true;
+			throw new Error("Failed to get value: Unknown error");
+		}
+	}
+
+	/**
+	 * Gets all key values.
+	 *
+	 * _For async method, use_ [`get()`].
+	 *
+	 * @returns All key values.
+	 * @example
+	 *
+	 * Gets all key values.
+	 * ```js
+	 * const obj = getSync();
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	getSync<T extends ValueType = never>(): KeyPathValue<S, [], T>;
+
+	/**
+	 * Gets the value at the given key path.
+	 *
+	 * _For async method, use_ [`get()`].
+	 *
+	 * @param keyPath The key path of the property.
+	 * @returns The value at the given key path.
+	 * @example
+	 *
+	 * Get the value at `color.name`.
+	 * ```js
+	 * // Given:
+	 * {
+	 * 	"color": {
+	 *		"name": "cerulean",
+	 *		"code": {
+	 *			"rgb": [0, 179, 230],
+	 *			"hex": "#003BE6"
+	 *		}
+	 *	}
+	 * }
+	 *
+	 * const value = keyValues.getSync('color.name');
+	 * // => "cerulean"
+	 * ```
+	 * @example
+	 *
+	 * Get the value at `color.code.hex`.
+	 * ```js
+	 * const hex = keyValues.getSync('color.color.hex');
+	 * // => "#003BE6"
+	 * ```
+	 * @example
+	 *
+	 * Get the value at `color.hue`.
+	 * ```js
+	 * const h = 'hue';
+	 * const value = keyValues.getSync(['color', h]);
+	 * // => undefined
+	 * ```
+	 * @example
+	 *
+	 * Get the value at `color.code.rgb[1]`.
+	 * ```js
+	 * const h = 'hue';
+	 * const value = keyValues.getSync('color.code.rgb[1]');
+	 * // => 179
+	 * ```
+	 *
+	 * @example
+	 * Get all values
+	 * ```js
+	 *  const values = keyValues.getSync();
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	getSync<T extends ValueType = never, P extends KeyPathOf<S> = KeyPathOf<S>>(keyPath: P): KeyPathValue<S, P, T>;
+
+	getSync<T extends ValueType>(keyPath?: KeyPath): T {
+		const obj = this.view(this.loadSync<T>());
+
+		if (keyPath) {
+			return _get(obj, keyPath);
 		}
 
-		return false;
+		return obj;
+	}
+
+	/**
+	 * Gets the values at many key paths with a single read.
+	 *
+	 * _For sync method, use_ [`getManySync()`].
+	 *
+	 * @param keyPaths The key paths of the properties.
+	 * @returns A promise which resolves with the values, keyed by key path in dot notation.
+	 * @example
+	 *
+	 * ```js
+	 * await keyValues.getMany(['color.name', ['window', 'width']]);
+	 * // => { 'color.name': 'sapphire', 'window.width': 800 }
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	async getMany<T extends ValueType>(keyPaths: Array<KeyPathOf<S>>): Promise<RecordType<T>>;
+
+	async getMany<T extends ValueType>(keyPaths: KeyPath[]): Promise<RecordType<T>> {
+		const obj = this.view(await this.load());
+		return this.pick<T>(obj, keyPaths);
+	}
+
+	/**
+	 * Gets the values at many key paths synchronously with a single read.
+	 *
+	 * _For async method, use_ [`getMany()`].
+	 *
+	 * @param keyPaths The key paths of the properties.
+	 * @returns The values, keyed by key path in dot notation.
+	 * @example
+	 *
+	 * ```js
+	 * keyValues.getManySync(['color.name', ['window', 'width']]);
+	 * // => { 'color.name': 'sapphire', 'window.width': 800 }
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	getManySync<T extends ValueType>(keyPaths: Array<KeyPathOf<S>>): RecordType<T>;
+
+	getManySync<T extends ValueType>(keyPaths: KeyPath[]): RecordType<T> {
+		const obj = this.view(this.loadSync());
+		return this.pick<T>(obj, keyPaths);
+	}
+
+	/**
+	 * Gets the values at every key path matching a pattern, with a single read.
+	 *
+	 * In the pattern, `*` matches any single key and `**` matches any number of keys, including none.
+	 *
+	 * _For sync method, use_ [`querySync()`].
+	 *
+	 * @param pattern The key path pattern.
+	 * @returns A promise which resolves with the matching values, keyed by key path in dot notation.
+	 * @example
+	 *
+	 * ```js
+	 * await keyValues.query('users.*.email');
+	 * // => { 'users.john.email': 'john@mail.com', 'users.jane.email': 'jane@mail.com' }
+	 *
+	 * await keyValues.query('plugins.**.enabled');
+	 * // => { 'plugins.git.enabled': true, 'plugins.lint.eslint.enabled': false }
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	async query<T extends ValueType>(pattern: KeyPath): Promise<RecordType<T>> {
+		const obj = this.view(await this.load());
+		return this.pick<T>(obj, findKeyPaths(obj, pattern));
+	}
+
+	/**
+	 * Gets the values at every key path matching a pattern, synchronously with a single read.
+	 *
+	 * In the pattern, `*` matches any single key and `**` matches any number of keys, including none.
+	 *
+	 * _For async method, use_ [`query()`].
+	 *
+	 * @param pattern The key path pattern.
+	 * @returns The matching values, keyed by key path in dot notation.
+	 * @example
+	 *
+	 * ```js
+	 * keyValues.querySync('users.*.email');
+	 * // => { 'users.john.email': 'john@mail.com', 'users.jane.email': 'jane@mail.com' }
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	querySync<T extends ValueType>(pattern: KeyPath): RecordType<T> {
+		const obj = this.view(this.loadSync());
+		return this.pick<T>(obj, findKeyPaths(obj, pattern));
+	}
+
+	/**
+	 * Lists the keys of all key values.
+	 *
+	 * _For sync method, use_ [`keysSync()`].
+	 *
+	 * @param options The options, e.g. `recursive` to list the leaf values by key path.
+	 * @returns A promise which resolves with the keys of all key values.
+	 * @example
+	 *
+	 * ```js
+	 * await keyValues.keys();
+	 * // => ['color', 'plugins']
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	async keys(options?: EnumerateOptions): Promise<string[]>;
+
+	/**
+	 * Lists the keys of the object or array at the given key path, or nothing if it is neither.
+	 *
+	 * _For sync method, use_ [`keysSync()`].
+	 *
+	 * @param keyPath The key path of the object or array.
+	 * @param options The options, e.g. `recursive` to list the leaf values by key path.
+	 * @returns A promise which resolves with the keys of the object or array at the key path.
+	 * @example
+	 *
+	 * ```js
+	 * await keyValues.keys('plugins', { recursive: true });
+	 * // => ['git.enabled', 'lint.eslint.enabled']
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	async keys(keyPath: KeyPathOf<S>, options?: EnumerateOptions): Promise<string[]>;
+
+	async keys(keyPathOrOptions?: KeyPath | EnumerateOptions, options?: EnumerateOptions): Promise<string[]> {
+		return this.enumerate(await this.load(), keyPathOrOptions, options).map(([key]) => key);
+	}
+
+	/**
+	 * Lists the keys of all key values synchronously.
+	 *
+	 * _For async method, use_ [`keys()`].
+	 *
+	 * @param options The options, e.g. `recursive` to list the leaf values by key path.
+	 * @returns The keys of all key values.
+	 * @example
+	 *
+	 * ```js
+	 * keyValues.keysSync();
+	 * // => ['color', 'plugins']
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	keysSync(options?: EnumerateOptions): string[];
+
+	/**
+	 * Lists the keys of the object or array at the given key path synchronously, or nothing if it is neither.
+	 *
+	 * _For async method, use_ [`keys()`].
+	 *
+	 * @param keyPath The key path of the object or array.
+	 * @param options The options, e.g. `recursive` to list the leaf values by key path.
+	 * @returns The keys of the object or array at the key path.
+	 * @example
+	 *
+	 * ```js
+	 * keyValues.keysSync('plugins', { recursive: true });
+	 * // => ['git.enabled', 'lint.eslint.enabled']
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	keysSync(keyPath: KeyPathOf<S>, options?: EnumerateOptions): string[];
+
+	keysSync(keyPathOrOptions?: KeyPath | EnumerateOptions, options?: EnumerateOptions): string[] {
+		return this.enumerate(this.loadSync(), keyPathOrOptions, options).map(([key]) => key);
+	}
+
+	/**
+	 * Lists the values of all key values.
+	 *
+	 * _For sync method, use_ [`valuesSync()`].
+	 *
+	 * @param options The options, e.g. `recursive` to list the leaf values by key path.
+	 * @returns A promise which resolves with the values of all key values.
+	 * @example
+	 *
+	 * ```js
+	 * await keyValues.values();
+	 * // => [{ name: 'cerulean' }, { git: { enabled: true } }]
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	async values<T extends ValueType>(options?: EnumerateOptions): Promise<T[]>;
+
+	/**
+	 * Lists the values of the object or array at the given key path, or nothing if it is neither.
+	 *
+	 * _For sync method, use_ [`valuesSync()`].
+	 *
+	 * @param keyPath The key path of the object or array.
+	 * @param options The options, e.g. `recursive` to list the leaf values by key path.
+	 * @returns A promise which resolves with the values of the object or array at the key path.
+	 * @example
+	 *
+	 * ```js
+	 * await keyValues.values('plugins', { recursive: true });
+	 * // => [true, false]
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	async values<T extends ValueType>(keyPath: KeyPathOf<S>, options?: EnumerateOptions): Promise<T[]>;
+
+	async values<T extends ValueType>(keyPathOrOptions?: KeyPath | EnumerateOptions, options?: EnumerateOptions): Promise<T[]> {
+		return this.enumerate<T>(await this.load(), keyPathOrOptions, options).map(([, value]) => value);
+	}
+
+	/**
+	 * Lists the values of all key values synchronously.
+	 *
+	 * _For async method, use_ [`values()`].
+	 *
+	 * @param options The options, e.g. `recursive` to list the leaf values by key path.
+	 * @returns The values of all key values.
+	 * @example
+	 *
+	 * ```js
+	 * keyValues.valuesSync();
+	 * // => [{ name: 'cerulean' }, { git: { enabled: true } }]
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	valuesSync<T extends ValueType>(options?: EnumerateOptions): T[];
+
+	/**
+	 * Lists the values of the object or array at the given key path synchronously, or nothing if it is neither.
+	 *
+	 * _For async method, use_ [`values()`].
+	 *
+	 * @param keyPath The key path of the object or array.
+	 * @param options The options, e.g. `recursive` to list the leaf values by key path.
+	 * @returns The values of the object or array at the key path.
+	 * @example
+	 *
+	 * ```js
+	 * keyValues.valuesSync('plugins', { recursive: true });
+	 * // => [true, false]
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	valuesSync<T extends ValueType>(keyPath: KeyPathOf<S>, options?: EnumerateOptions): T[];
+
+	valuesSync<T extends ValueType>(keyPathOrOptions?: KeyPath | EnumerateOptions, options?: EnumerateOptions): T[] {
+		return this.enumerate<T>(this.loadSync(), keyPathOrOptions, options).map(([, value]) => value);
+	}
+
+	/**
+	 * Lists the `[key, value]` pairs of all key values.
+	 *
+	 * _For sync method, use_ [`entriesSync()`].
+	 *
+	 * @param options The options, e.g. `recursive` to list the leaf values by key path.
+	 * @returns A promise which resolves with the `[key, value]` pairs of all key values.
+	 * @example
+	 *
+	 * ```js
+	 * await keyValues.entries();
+	 * // => [['color', { name: 'cerulean' }], ['plugins', { git: { enabled: true } }]]
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	async entries<T extends ValueType>(options?: EnumerateOptions): Promise<Array<[string, T]>>;
+
+	/**
+	 * Lists the `[key, value]` pairs of the object or array at the given key path, or nothing if it is neither.
+	 *
+	 * _For sync method, use_ [`entriesSync()`].
+	 *
+	 * @param keyPath The key path of the object or array.
+	 * @param options The options, e.g. `recursive` to list the leaf values by key path.
+	 * @returns A promise which resolves with the `[key, value]` pairs of the object or array at the key path.
+	 * @example
+	 *
+	 * ```js
+	 * await keyValues.entries('plugins', { recursive: true });
+	 * // => [['git.enabled', true], ['lint.eslint.enabled', false]]
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	async entries<T extends ValueType>(keyPath: KeyPathOf<S>, options?: EnumerateOptions): Promise<Array<[string, T]>>;
+
+	async entries<T extends ValueType>(keyPathOrOptions?: KeyPath | EnumerateOptions, options?: EnumerateOptions): Promise<Array<[string, T]>> {
+		return this.enumerate<T>(await this.load(), keyPathOrOptions, options);
+	}
+
+	/**
+	 * Lists the `[key, value]` pairs of all key values synchronously.
+	 *
+	 * _For async method, use_ [`entries()`].
+	 *
+	 * @param options The options, e.g. `recursive` to list the leaf values by key path.
+	 * @returns The `[key, value]` pairs of all key values.
+	 * @example
+	 *
+	 * ```js
+	 * keyValues.entriesSync();
+	 * // => [['color', { name: 'cerulean' }], ['plugins', { git: { enabled: true } }]]
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	entriesSync<T extends ValueType>(options?: EnumerateOptions): Array<[string, T]>;
+
+	/**
+	 * Lists the `[key, value]` pairs of the object or array at the given key path synchronously, or nothing if it is neither.
+	 *
+	 * _For async method, use_ [`entries()`].
+	 *
+	 * @param keyPath The key path of the object or array.
+	 * @param options The options, e.g. `recursive` to list the leaf values by key path.
+	 * @returns The `[key, value]` pairs of the object or array at the key path.
+	 * @example
+	 *
+	 * ```js
+	 * keyValues.entriesSync('plugins', { recursive: true });
+	 * // => [['git.enabled', true], ['lint.eslint.enabled', false]]
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	entriesSync<T extends ValueType>(keyPath: KeyPathOf<S>, options?: EnumerateOptions): Array<[string, T]>;
+
+	entriesSync<T extends ValueType>(keyPathOrOptions?: KeyPath | EnumerateOptions, options?: EnumerateOptions): Array<[string, T]> {
+		return this.enumerate<T>(this.loadSync(), keyPathOrOptions, options);
+	}
+
+	/**
+	 * Counts the keys of all key values.
+	 *
+	 * _For sync method, use_ [`sizeSync()`].
+	 *
+	 * @param options The options, e.g. `recursive` to list the leaf values by key path.
+	 * @returns A promise which resolves with the number of keys of all key values.
+	 * @example
+	 *
+	 * ```js
+	 * await keyValues.size();
+	 * // => 2
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	async size(options?: EnumerateOptions): Promise<number>;
+
+	/**
+	 * Counts the keys of the object or array at the given key path, or nothing if it is neither.
+	 *
+	 * _For sync method, use_ [`sizeSync()`].
+	 *
+	 * @param keyPath The key path of the object or array.
+	 * @param options The options, e.g. `recursive` to list the leaf values by key path.
+	 * @returns A promise which resolves with the number of keys of the object or array at the key path.
+	 * @example
+	 *
+	 * ```js
+	 * await keyValues.size('plugins', { recursive: true });
+	 * // => 2
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	async size(keyPath: KeyPathOf<S>, options?: EnumerateOptions): Promise<number>;
+
+	async size(keyPathOrOptions?: KeyPath | EnumerateOptions, options?: EnumerateOptions): Promise<number> {
+		return this.enumerate(await this.load(), keyPathOrOptions, options).length;
+	}
+
+	/**
+	 * Counts the keys of all key values synchronously.
+	 *
+	 * _For async method, use_ [`size()`].
+	 *
+	 * @param options The options, e.g. `recursive` to list the leaf values by key path.
+	 * @returns The number of keys of all key values.
+	 * @example
+	 *
+	 * ```js
+	 * keyValues.sizeSync();
+	 * // => 2
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	sizeSync(options?: EnumerateOptions): number;
+
+	/**
+	 * Counts the keys of the object or array at the given key path synchronously, or nothing if it is neither.
+	 *
+	 * _For async method, use_ [`size()`].
+	 *
+	 * @param keyPath The key path of the object or array.
+	 * @param options The options, e.g. `recursive` to list the leaf values by key path.
+	 * @returns The number of keys of the object or array at the key path.
+	 * @example
+	 *
+	 * ```js
+	 * keyValues.sizeSync('plugins', { recursive: true });
+	 * // => 2
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	sizeSync(keyPath: KeyPathOf<S>, options?: EnumerateOptions): number;
+
+	sizeSync(keyPathOrOptions?: KeyPath | EnumerateOptions, options?: EnumerateOptions): number {
+		return this.enumerate(this.loadSync(), keyPathOrOptions, options).length;
+	}
+
+	/**
+	 * Iterates over the `[key, value]` pairs of all key values, read once when the iteration starts.
+	 *
+	 * _For sync iteration, use_ `for...of`.
+	 *
+	 * @returns An async iterator of the `[key, value]` pairs.
+	 * @example
+	 *
+	 * ```js
+	 * for await (const [key, value] of keyValues) {
+	 * 	console.log(key, value);
+	 * }
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	async *[Symbol.asyncIterator](): AsyncIterableIterator<[string, ValueType]> {
+		yield* this.enumerate(await this.load());
+	}
+
+	/**
+	 * Iterates synchronously over the `[key, value]` pairs of all key values, read once when the iteration starts.
+	 *
+	 * _For async iteration, use_ `for await...of`.
+	 *
+	 * @returns An iterator of the `[key, value]` pairs.
+	 * @example
+	 *
+	 * ```js
+	 * for (const [key, value] of keyValues) {
+	 * 	console.log(key, value);
+	 * }
+	 * ```
+	 *
+	 * @category Get Methods
+	 */
+	*[Symbol.iterator](): IterableIterator<[string, ValueType]> {
+		yield* this.enumerate(this.loadSync());
+	}
+
+	/**
+	 * Checks if the given key path exists.
+	 *
+	 * _For sync method, use_ [`hasSync()`].
+	 *
+	 * @param keyPath The key path to check.
+	 * @returns A promise which resolves to `true` if the `keyPath` exists, else `false`.
+	 * @example
+	 *
+	 * Check if the value at `color.name` exists.
+	 * ```js
+	 * // Given:
+	 * {
+	 * 	"color": {
+	 *		"name": "cerulean",
+	 *		"code": {
+	 *			"rgb": [0, 179, 230],
+	 *			"hex": "#003BE6"
+	 *		}
+	 *	}
+	 * }
+	 *
+	 * const exists = await keyValues.has('color.name');
+	 * // => true
+	 * ```
+	 * @example
+	 *
+	 * Check if the value at `color.hue` exists.
+	 * ```js
+	 * const exists = await keyValues.has(['color', 'hue']);
+	 * // => false
+	 * ```
+	 *  @example
+	 *
+	 * Check if the value at `color.code.rgb[1]` exists.
+	 * ```js
+	 * const exists = await keyValues.has(color.code.rgb[1]);
+	 * // => true
+	 * ```
+	 *
+	 * @category Has Methods
+	 */
+	async has(keyPath: KeyPathOf<S>): Promise<boolean>;
+
+	async has(keyPath: KeyPath): Promise<boolean> {
+		const obj = this.view(await this.load());
+		return _has(obj, keyPath);
+	}
+
+	/**
+	 * Checks if the given key path exists.
+	 *
+	 * _For async method, use_ [`has()`].
+	 *
+	 * @param keyPath The key path to check.
+	 * @returns `true` if the `keyPath` exists, else `false`.
+	 * @example
+	 *
+	 * Check if the value at `color.name` exists.
+	 * ```js
+	 * // Given:
+	 * {
+	 * 	"color": {
+	 *		"name": "cerulean",
+	 *		"code": {
+	 *			"rgb": [0, 179, 230],
+	 *			"hex": "#003BE6"
+	 *		}
+	 *	}
+	 * }
+	 *
+	 * const exists = keyValues.hasSync('color.name');
+	 * // => true
+	 * ```
+	 * @example
+	 *
+	 * Check if the value at `color.hue` exists.
+	 * ```js
+	 * const exists = keyValues.hasSync(['color', 'hue']);
+	 * // => false
+	 * ```
+	 * @example
+	 *
+	 * Check if the value at `color.code.rgb[1]` exists.
+	 * ```js
+	 * const exists = keyValues.hasSync(color.code.rgb[1]);
+	 * // => true
+	 * ```
+	 *
+	 * @category Has Methods
+	 */
+	hasSync(keyPath: KeyPathOf<S>): boolean;
+
+	hasSync(keyPath: KeyPath): boolean {
+		const obj = this.view(this.loadSync());
+		return _has(obj, keyPath);
+	}
+
+	/**
+	 * Unsets all key values.
+	 *
+	 * _For sync method, use_ [`unsetSync()`].
+	 *
+	 * @returns A promise which resolves when the key values have been unset.
+	 * @example
+	 *
+	 * Unsets all key values.
+	 * ```js
+	 * await keyValues.unset();
+	 * await keyValues.get();
+	 * // => undefined
+	 * ```
+	 *
+	 * @category Unset Methods
+	 */
+	async unset(): Promise<boolean>;
+
+	/**
+	 * Unsets the property at the given key path.
+	 *
+	 * _For sync method, use_ [`unsetSync()`].
+	 *
+	 * @param keyPath The key path of the property.
+	 * @returns A promise which resolves when the setting has been unset.
+	 * @example
+	 *
+	 * Unset the property `color.name`.
+	 * ```js
+	 * // Given:
+	 * {
+	 * 	"color": {
+	 *		"name": "cerulean",
+	 *		"code": {
+	 *			"rgb": [0, 179, 230],
+	 *			"hex": "#003BE6"
+	 *		}
+	 *	}
+	 * }
+	 *
+	 * await keyValues.unset('color.name');
+	 * await keyValues.get('color.name');
+	 * // => undefined
+	 * ```
+	 * @example
+	 *
+	 * Unset the property `color.code.rgba[1]`.
+	 * ```js
+	 * await keyValues.unset('color.code.rgba[1]');
+	 * await keyValues.get('color.code.rgb');
+	 * // => [0, null, 230]
+	 * ```
+	 *
+	 * @category Unset Methods
+	 */
+	async unset(keyPath: KeyPathOf<S>): Promise<boolean>;
+
+	async unset(keyPath?: KeyPath): Promise<boolean> {
+		return this.enqueue(async () => {
+			const obj = await this.loadForUpdate();
+			const previous = this.emitter.snapshot(obj);
+
+			if (!_isEmpty(this.userData(obj))) {
+				if (keyPath && _unset(obj, keyPath)) {
+					setExpiration(obj, keyPath);
+					await this.save(obj);
+					this.notify(obj, previous);
+				} else {
+					const next = Migrator.keepVersion(obj, {});
+					await this.save(next);
+					this.notify(next, previous);
+				}
+				return true;
+			}
+
+			return false;
+		});
+	}
+
+	/**
+	 * Unsets all key values.
+	 *
+	 * _For async method, use_ [`unset()`].
+	 *
+	 * @example
+	 *
+	 * Unsets all key values.
+	 * ```js
+	 * keyValues.unsetSync();
+	 * ```
+	 *
+	 * @category Unset Methods
+	 */
+	unsetSync(): boolean;
+
+	/**
+	 * Unsets the property at the given key path.
+	 *
+	 * _For async method, use_ [`unset()`].
+	 *
+	 * @param keyPath The key path of the property.
+	 * @example
+	 *
+	 * Unset the property `color.name`.
+	 * ```js
+	 * // Given:
+	 * {
+	 * 	"color": {
+	 *		"name": "cerulean",
+	 *		"code": {
+	 *			"rgb": [0, 179, 230],
+	 *			"hex": "#003BE6"
+	 *		}
+	 *	}
+	 * }
+	 *
+	 * keyValues.unsetSync('color.name');
+	 * keyValues.getSync('color.name');
+	 * // => undefined
+	 * ```
+	 * @example
+	 *
+	 * Unset the property `color.code.rgba[1]`.
+	 * ```js
+	 * keyValues.unsetSync('color.code.rgba[1]');
+	 * keyValues.getSync('color.code.rgb');
+	 * // => [0, null, 230]
+	 * ```
+	 *
+	 * @category Unset Methods
+	 */
+	unsetSync(keyPath: KeyPathOf<S>): boolean;
+
+	unsetSync(keyPath?: KeyPath): boolean {
+		return this.exclusiveSync(() => {
+			const obj = this.loadForUpdateSync();
+			const previous = this.emitter.snapshot(obj);
+
+			if (!_isEmpty(this.userData(obj))) {
+				if (keyPath && _unset(obj, keyPath)) {
+					setExpiration(obj, keyPath);
+					this.saveSync(obj);
+					this.notify(obj, previous);
+				} else {
+					// Unset all keyValues by saving empty object.
+					const next = Migrator.keepVersion(obj, {});
+					this.saveSync(next);
+					this.notify(next, previous);
+				}
+
+				return true;
+			}
+
+			return false;
+		});
+	}
+
+	/**
+	 * Unsets the properties at many key paths in a single write.
+	 *
+	 * _For sync method, use_ [`unsetManySync()`].
+	 *
+	 * @param keyPaths The key paths of the properties.
+	 * @returns A promise which resolves with `true` if any of the properties existed, else `false`.
+	 * @example
+	 *
+	 * ```js
+	 * await keyValues.unsetMany(['color.name', ['window', 'width']]);
+	 * // => true
+	 * ```
+	 *
+	 * @category Unset Methods
+	 */
+	async unsetMany(keyPaths: Array<KeyPathOf<S>>): Promise<boolean>;
+
+	async unsetMany(keyPaths: KeyPath[]): Promise<boolean> {
+		return this.enqueue(async () => {
+			const obj = await this.loadForUpdate();
+			const previous = this.emitter.snapshot(obj);
+
+			if (!this.unsetAll(obj, keyPaths)) return false;
+
+			await this.save(obj);
+			this.notify(obj, previous);
+			return true;
+		});
+	}
+
+	/**
+	 * Unsets the properties at many key paths synchronously in a single write.
+	 *
+	 * _For async method, use_ [`unsetMany()`].
+	 *
+	 * @param keyPaths The key paths of the properties.
+	 * @returns `true` if any of the properties existed, else `false`.
+	 * @example
+	 *
+	 * ```js
+	 * keyValues.unsetManySync(['color.name', ['window', 'width']]);
+	 * // => true
+	 * ```
+	 *
+	 * @category Unset Methods
+	 */
+	unsetManySync(keyPaths: Array<KeyPathOf<S>>): boolean;
+
+	unsetManySync(keyPaths: KeyPath[]): boolean {
+		return this.exclusiveSync(() => {
+			const obj = this.loadForUpdateSync();
+			const previous = this.emitter.snapshot(obj);
+
+			if (!this.unsetAll(obj, keyPaths)) return false;
+
+			this.saveSync(obj);
+			this.notify(obj, previous);
+			return true;
+		});
+	}
+
+	/**
+	 * Unsets the property at every key path matching a pattern, in a single write.
+	 *
+	 * In the pattern, `*` matches any single key and `**` matches any number of keys, including none.
+	 *
+	 * _For sync method, use_ [`unsetMatchingSync()`].
+	 *
+	 * @param pattern The key path pattern.
+	 * @returns A promise which resolves with the key paths of the properties unset, in dot notation.
+	 * @example
+	 *
+	 * ```js
+	 * await keyValues.unsetMatching('users.*.password');
+	 * // => ['users.john.password', 'users.jane.password']
+	 * ```
+	 *
+	 * @category Unset Methods
+	 */
+	async unsetMatching(pattern: KeyPath): Promise<string[]> {
+		return this.enqueue(async () => {
+			const obj = await this.loadForUpdate();
+			const previous = this.emitter.snapshot(obj);
+			const keyPaths = findKeyPaths(this.userData(this.unexpired(obj)), pattern);
+
+			if (!this.unsetAll(obj, keyPaths)) return [];
+
+			await this.save(obj);
+			this.notify(obj, previous);
+			return keyPaths.map((keyPath) => keyPath.join("."));
+		});
+	}
+
+	/**
+	 * Unsets the property at every key path matching a pattern, synchronously in a single write.
+	 *
+	 * In the pattern, `*` matches any single key and `**` matches any number of keys, including none.
+	 *
+	 * _For async method, use_ [`unsetMatching()`].
+	 *
+	 * @param pattern The key path pattern.
+	 * @returns The key paths of the properties unset, in dot notation.
+	 * @example
+	 *
+	 * ```js
+	 * keyValues.unsetMatchingSync('users.*.password');
+	 * // => ['users.john.password', 'users.jane.password']
+	 * ```
+	 *
+	 * @category Unset Methods
+	 */
+	unsetMatchingSync(pattern: KeyPath): string[] {
+		return this.exclusiveSync(() => {
+			const obj = this.loadForUpdateSync();
+			const previous = this.emitter.snapshot(obj);
+			const keyPaths = findKeyPaths(this.userData(this.unexpired(obj)), pattern);
+
+			if (!this.unsetAll(obj, keyPaths)) return [];
+
+			this.saveSync(obj);
+			this.notify(obj, previous);
+			return keyPaths.map((keyPath) => keyPath.join("."));
+		});
+	}
+
+	/**
+	 * Resets all key values to the `defaults` option.
+	 *
+	 * _For sync method, use_ [`resetSync()`].
+	 *
+	 * @returns A promise which resolves when the defaults have been written.
+	 * @example
+	 *
+	 * Reset all key values.
+	 * ```js
+	 * // Given the defaults:
+	 * { "window": { "width": 800, "height": 600 } }
+	 *
+	 * await keyValues.reset();
+	 * await keyValues.get();
+	 * // => { "window": { "width": 800, "height": 600 } }
+	 * ```
+	 *
+	 * @category Unset Methods
+	 */
+	async reset(): Promise<void>;
+
+	/**
+	 * Resets the value at the given key path to its default,
+	 * removing it if the `defaults` option has no value there.
+	 *
+	 * _For sync method, use_ [`resetSync()`].
+	 *
+	 * @param keyPath The key path of the property.
+	 * @returns A promise which resolves when the default has been written.
+	 * @example
+	 *
+	 * Reset the value at `window.width`.
+	 * ```js
+	 * await keyValues.set('window.width', 1024);
+	 * await keyValues.reset('window.width');
+	 * await keyValues.get('window.width');
+	 * // => 800
+	 * ```
+	 *
+	 * @category Unset Methods
+	 */
+	async reset(keyPath: KeyPathOf<S>): Promise<void>;
+
+	async reset(keyPath?: KeyPath): Promise<void> {
+		return this.enqueue(async () => {
+			const obj = await this.loadForUpdate();
+			const previous = this.emitter.snapshot(obj);
+			const next = this.applyDefaults(obj, keyPath);
+
+			await this.save(next);
+			this.notify(next, previous);
+		});
+	}
+
+	/**
+	 * Resets all key values to the `defaults` option.
+	 *
+	 * _For async method, use_ [`reset()`].
+	 *
+	 * @example
+	 *
+	 * Reset all key values.
+	 * ```js
+	 * keyValues.resetSync();
+	 * ```
+	 *
+	 * @category Unset Methods
+	 */
+	resetSync(): void;
+
+	/**
+	 * Resets the value at the given key path to its default,
+	 * removing it if the `defaults` option has no value there.
+	 *
+	 * _For async method, use_ [`reset()`].
+	 *
+	 * @param keyPath The key path of the property.
+	 * @example
+	 *
+	 * Reset the value at `window.width`.
+	 * ```js
+	 * keyValues.resetSync('window.width');
+	 * ```
+	 *
+	 * @category Unset Methods
+	 */
+	resetSync(keyPath: KeyPathOf<S>): void;
+
+	resetSync(keyPath?: KeyPath): void {
+		this.exclusiveSync(() => {
+			const obj = this.loadForUpdateSync();
+			const previous = this.emitter.snapshot(obj);
+			const next = this.applyDefaults(obj, keyPath);
+
+			this.saveSync(next);
+			this.notify(next, previous);
+		});
+	}
+
+	/**
+	 * Removes the values whose time to live has expired from the keyvalues file.
+	 *
+	 * Expired values are already hidden from the readers and removed by the next write,
+	 * so this is only needed to free the file of them sooner.
+	 *
+	 * _For sync method, use_ [`purgeExpiredSync()`].
+	 *
+	 * @returns A promise which resolves with the key paths of the removed values.
+	 * @example
+	 *
+	 * ```js
+	 * await keyValues.set('session.token', 'abc123', { ttl: 1000 });
+	 * // ...one second later
+	 * await keyValues.purgeExpired();
+	 * // => ['session.token']
+	 * ```
+	 *
+	 * @category Unset Methods
+	 * @see {@link SetOptions}
+	 */
+	async purgeExpired(): Promise<string[]> {
+		return this.enqueue(async () => {
+			const obj = await this.load();
+			const previous = this.emitter.snapshot(obj);
+			const purged = removeExpiredKeys(obj);
+
+			if (purged.length) {
+				await this.save(obj);
+				this.notify(obj, previous);
+			}
+			return purged.map((keyPath) => keyPath.join("."));
+		});
+	}
+
+	/**
+	 * Removes the values whose time to live has expired from the keyvalues file synchronously.
+	 *
+	 * Expired values are already hidden from the readers and removed by the next write,
+	 * so this is only needed to free the file of them sooner.
+	 *
+	 * _For async method, use_ [`purgeExpired()`].
+	 *
+	 * @returns The key paths of the removed values.
+	 * @example
+	 *
+	 * ```js
+	 * keyValues.setSync('session.token', 'abc123', { ttl: 1000 });
+	 * // ...one second later
+	 * keyValues.purgeExpiredSync();
+	 * // => ['session.token']
+	 * ```
+	 *
+	 * @category Unset Methods
+	 * @see {@link SetOptions}
+	 */
+	purgeExpiredSync(): string[] {
+		return this.exclusiveSync(() => {
+			const obj = this.loadSync();
+			const previous = this.emitter.snapshot(obj);
+			const purged = removeExpiredKeys(obj);
+
+			if (purged.length) {
+				this.saveSync(obj);
+				this.notify(obj, previous);
+			}
+			return purged.map((keyPath) => keyPath.join("."));
+		});
+	}
+
+	/**
+	 * Watches the value at the given key path for changes.
+	 *
+	 * The callback is called after `set`, `setSync`, `unset` or `unsetSync`
+	 * only if the value at the key path is not deeply equal to its previous value.
+	 * Changes made by other processes are also reported while [`watch()`] is active.
+	 * Errors thrown by the callback are reported as process warnings and don't fail the change.
+	 *
+	 * @param keyPath The key path to watch.
+	 * @param callback The function called with the new and the previous value.
+	 * @returns A function which removes the subscription.
+	 * @example
+	 *
+	 * Watch the value at `color.name`.
+	 * ```js
+	 * const unsubscribe = keyValues.onDidChange('color.name', (newValue, oldValue) => {
+	 * 	console.log(`${oldValue} => ${newValue}`);
+	 * });
+	 *
+	 * await keyValues.set('color.name', 'sapphire');
+	 * // => "cerulean => sapphire"
+	 *
+	 * unsubscribe();
+	 * ```
+	 *
+	 * @category Event Methods
+	 */
+	onDidChange<T extends ValueType = never, P extends KeyPathOf<S> = KeyPathOf<S>>(
+		keyPath: P,
+		callback: (newValue: KeyPathValue<S, P, T> | undefined, oldValue: KeyPathValue<S, P, T> | undefined) => void
+	): Unsubscribe;
+
+	onDidChange<T extends ValueType>(keyPath: KeyPath, callback: ChangeCallback<T>): Unsubscribe {
+		return this.emitter.onDidChange(keyPath, callback as ChangeCallback);
+	}
+
+	/**
+	 * Watches all key values for changes.
+	 *
+	 * The callback is called after `set`, `setSync`, `unset` or `unsetSync`
+	 * only if the key values are not deeply equal to their previous value.
+	 * Changes made by other processes are also reported while [`watch()`] is active.
+	 * Errors thrown by the callback are reported as process warnings and don't fail the change.
+	 *
+	 * @param callback The function called with the new and the previous key values, and the changed key paths.
+	 * @returns A function which removes the subscription.
+	 * @example
+	 *
+	 * Watch all key values.
+	 * ```js
+	 * const unsubscribe = keyValues.onDidAnyChange((newValue, oldValue, changedKeys) => {
+	 * 	console.log(changedKeys);
+	 * });
+	 *
+	 * await keyValues.set('color.name', 'sapphire');
+	 * // => ["color.name"]
+	 * ```
+	 *
+	 * @category Event Methods
+	 */
+	onDidAnyChange<T extends ValueType>(callback: AnyChangeCallback<T>): Unsubscribe {
+		return this.emitter.onDidAnyChange(callback as AnyChangeCallback);
+	}
+
+	/**
+	 * Starts watching the keyvalues file for modifications made by
+	 * other processes or by hand, reporting them to the subscribers of
+	 * [`onDidChange()`] and [`onDidAnyChange()`].
+	 *
+	 * Calling it again while already watching has no effect.
+	 * Use [`close()`] to stop watching. Custom storage adapters can't be watched.
+	 *
+	 * @param options {@link WatchOptions} The options used to watch the file.
+	 * @example
+	 *
+	 * Reload the theme when the file is edited by hand.
+	 * ```js
+	 * keyValues.onDidChange('theme', (theme) => applyTheme(theme));
+	 * keyValues.watch();
+	 * ```
+	 *
+	 * @category Event Methods
+	 */
+	watch(options?: WatchOptions): void {
+		if (this.watcher) return;
+		if (this.options.adapter) throw new Error("Failed to watch: only the default JSON file storage can be watched");
+
+		this.watched = this.loadSync();
+		this.watcher = new FileWatcher(this.file(), () => void this.reloadWatched().catch(() => undefined), options);
+	}
+
+	/**
+	 * Stops watching the keyvalues file and releases the watcher.
+	 *
+	 * @example
+	 *
+	 * ```js
+	 * keyValues.close();
+	 * ```
+	 *
+	 * @category Event Methods
+	 */
+	close(): void {
+		this.watcher?.close();
+		this.watcher = undefined;
+		this.watched = undefined;
+	}
+
+	/**
+	 * This instance without its schema, for the methods forwarding key paths of any shape.
+	 * @internal
+	 */
+	private get untyped(): KeyValues {
+		return this;
+	}
+
+	/**
+	 * Returns the key values as seen by the readers: the stored key values
+	 * without the store metadata, deep-merged over the `defaults` option, if any.
+	 * Arrays are replaced as a whole instead of merged by index.
+	 *
+	 * @param obj The stored key values.
+	 * @returns The key values merged with the defaults.
+	 * @internal
+	 */
+	private view<T>(obj: T): T {
+		const data = this.userData(this.unexpired(obj));
+		const defaults = this.options.defaults;
+		if (!defaults) return data;
+
+		return _mergeWith(_cloneDeep(defaults), data, (_defaultValue: unknown, value: unknown) => (Array.isArray(value) ? value : undefined));
+	}
+
+	/**
+	 * Returns the stored key values without the values whose time to live has expired.
+	 *
+	 * @param obj The stored key values.
+	 * @returns A copy of `obj` without the expired values, or `obj` itself if none expired.
+	 * @internal
+	 */
+	private unexpired<T>(obj: T): T {
+		if (!hasExpiredKeys(obj as ValueType)) return obj;
+
+		const copy = _cloneDeep(obj);
+		removeExpiredKeys(copy as ValueType);
+		return copy;
+	}
+
+	/**
+	 * Returns the stored key values without the store metadata.
+	 *
+	 * @param obj The stored key values.
+	 * @returns A shallow copy of `obj` without the reserved key, or `obj` itself if it has none.
+	 * @internal
+	 */
+	private userData<T>(obj: T): T {
+		return _isPlainObject(obj) && INTERNAL_KEY in (obj as object) ? (_omit(obj as object, INTERNAL_KEY) as T) : obj;
+	}
+
+	/**
+	 * Writes the defaults into the stored key values.
+	 *
+	 * @param obj The stored key values.
+	 * @param keyPath The key path to reset, or all key values if omitted.
+	 * @returns The key values to save.
+	 * @internal
+	 */
+	private applyDefaults(obj: ValueType, keyPath?: KeyPath): ValueType {
+		const defaults = this.options.defaults ?? {};
+		if (!keyPath) return Migrator.keepVersion(obj, _cloneDeep(defaults));
+
+		setExpiration(obj, keyPath);
+		if (_has(defaults, keyPath)) {
+			_set(obj as object, keyPath, _cloneDeep(_get(defaults, keyPath)));
+		} else {
+			_unset(obj, keyPath);
+		}
+		return obj;
+	}
+
+	/**
+	 * Returns the new array of an array operation, or `undefined` if there is no current array
+	 * and the new one is empty, so that `update()` leaves the key path absent instead of writing an empty array.
+	 *
+	 * @param current The current value.
+	 * @param next The new array.
+	 * @returns The new array, or `undefined` to skip the write.
+	 * @internal
+	 */
+	private unlessAbsent<T extends ValueType>(current: unknown, next: T[]): T[] {
+		return (current === undefined && next.length === 0 ? current : next) as T[];
+	}
+
+	/**
+	 * Removes the items matching a predicate, or equal to a value, from the current array.
+	 *
+	 * @param keyPath The key path of the array.
+	 * @param current The current value.
+	 * @param predicateOrValue A function returning `true` for the items to remove, or the value of the items to remove.
+	 * @returns The array without the matching items.
+	 * @throws {ValueTypeError} If the current value is not an array.
+	 * @internal
+	 */
+	private pullItems<T extends ValueType>(keyPath: KeyPath, current: unknown, predicateOrValue: T | ((item: T) => boolean)): T[] {
+		const matches = typeof predicateOrValue === "function" ? predicateOrValue : (item: T) => _isEqual(item, predicateOrValue);
+		return (toArray("pull", keyPath, current) as T[]).filter((item) => !matches(item));
+	}
+
+	/**
+	 * Converts the entries given to `setMany()` to `[keyPath, value]` pairs.
+	 *
+	 * @param entries The values, keyed by key path, or as `[keyPath, value]` pairs.
+	 * @returns The `[keyPath, value]` pairs.
+	 * @internal
+	 */
+	private toEntries(entries: SchemaEntries<S>): Array<[KeyPath, ValueType]> {
+		const untyped = entries as RecordType<ValueType> | Array<[KeyPath, ValueType]>;
+		return Array.isArray(untyped) ? untyped : Object.entries(untyped);
+	}
+
+	/**
+	 * Picks the values at many key paths.
+	 *
+	 * @param obj The key values.
+	 * @param keyPaths The key paths of the properties.
+	 * @returns The values, keyed by key path in dot notation.
+	 * @internal
+	 */
+	private pick<T extends ValueType>(obj: ValueType, keyPaths: KeyPath[]): RecordType<T> {
+		const result: RecordType<T> = {};
+		for (const keyPath of keyPaths) {
+			result[Array.isArray(keyPath) ? keyPath.join(".") : keyPath] = _get(obj, keyPath);
+		}
+		return result;
+	}
+
+	/**
+	 * Creates the scope over the key values below a key path prefix.
+	 *
+	 * @param prefix The key path prefix of the scope.
+	 * @returns The scope, resolving its key paths against `prefix`.
+	 * @internal
+	 */
+	private createScope(prefix: string[]): Scope {
+		const resolve = (keyPath?: KeyPath): string[] => (keyPath === undefined ? prefix : [...prefix, ..._toPath(keyPath)]);
+		const args = <T extends ValueType>(scoped: [RecordType<T>] | [KeyPath, T, SetOptions?]): [KeyPath, ValueType, SetOptions?] =>
+			scoped.length === 1 ? [prefix, scoped[0]] : [resolve(scoped[0]), scoped[1], scoped[2]];
+
+		return {
+			prefix,
+			get: <T extends ValueType>(keyPath?: KeyPath): Promise<T> => this.untyped.get(resolve(keyPath)) as Promise<T>,
+			getSync: <T extends ValueType>(keyPath?: KeyPath): T => this.untyped.getSync(resolve(keyPath)) as T,
+			set: <T extends ValueType>(...scoped: [RecordType<T>] | [KeyPath, T, SetOptions?]): Promise<void> => this.untyped.set(...args(scoped)),
+			setSync: <T extends ValueType>(...scoped: [RecordType<T>] | [KeyPath, T, SetOptions?]): void => this.untyped.setSync(...args(scoped)),
+			has: (keyPath: KeyPath): Promise<boolean> => this.untyped.has(resolve(keyPath)),
+			hasSync: (keyPath: KeyPath): boolean => this.untyped.hasSync(resolve(keyPath)),
+			unset: (keyPath?: KeyPath): Promise<boolean> => this.untyped.unset(resolve(keyPath)),
+			unsetSync: (keyPath?: KeyPath): boolean => this.untyped.unsetSync(resolve(keyPath)),
+			scope: (keyPath: KeyPath): Scope => this.untyped.scope(resolve(keyPath)),
+		};
+	}
+
+	/**
+	 * Lists the entries of the key values, or of the object or array at a key path.
+	 *
+	 * @param obj The stored key values.
+	 * @param keyPathOrOptions The key path of the object or array, or the options.
+	 * @param options The options, if a key path is given.
+	 * @returns The keys, or the leaf key paths in dot notation, and their values.
+	 * @internal
+	 */
+	private enumerate<T extends ValueType>(obj: ValueType, keyPathOrOptions?: KeyPath | EnumerateOptions, options?: EnumerateOptions): Array<[string, T]> {
+		const isKeyPath = typeof keyPathOrOptions === "string" || Array.isArray(keyPathOrOptions);
+		const { recursive } = (isKeyPath ? options : keyPathOrOptions) ?? {};
+		const data = this.view(obj);
+
+		return listEntries(isKeyPath ? _get(data, keyPathOrOptions) : data, recursive).map(([keyPath, value]) => [keyPath.join("."), value as T]);
+	}
+
+	/**
+	 * Sets the value at many key paths of the stored key values.
+	 *
+	 * @param obj The stored key values, modified in place.
+	 * @param keyPaths The key paths of the properties.
+	 * @param value The value to set, or a function receiving the current value and its key path in dot notation, and returning the value to set.
+	 * @returns The key paths of the values set, in dot notation.
+	 * @internal
+	 */
+	private setAll<T extends ValueType>(obj: ValueType, keyPaths: string[][], value: T | ((current: T, keyPath: string) => T)): string[] {
+		const view = this.view(obj);
+
+		return keyPaths.map((keyPath) => {
+			const path = keyPath.join(".");
+			const next = typeof value === "function" ? value(_cloneDeep(_get(view, keyPath)), path) : _cloneDeep(value);
+
+			_set(obj as object, keyPath, next);
+			setExpiration(obj, keyPath);
+			return path;
+		});
+	}
+
+	/**
+	 * Unsets the properties at many key paths of the stored key values.
+	 *
+	 * @param obj The stored key values, modified in place.
+	 * @param keyPaths The key paths of the properties.
+	 * @returns `true` if any of the properties existed, else `false`.
+	 * @internal
+	 */
+	private unsetAll(obj: ValueType, keyPaths: KeyPath[]): boolean {
+		let removed = false;
+		for (const keyPath of keyPaths) {
+			if (!_has(obj, keyPath)) continue;
+
+			_unset(obj, keyPath);
+			setExpiration(obj, keyPath);
+			removed = true;
+		}
+		return removed;
+	}
+
+	/**
+	 * Creates the operations of a transaction, applied to the working copy of the key values.
+	 * Values are copied in and out, so changes made to them outside the operations are not saved.
+	 *
+	 * @param draft The working copy, and whether it was changed.
+	 * @returns The transaction operations.
+	 * @internal
+	 */
+	private createTransaction(draft: { data: ValueType; changed: boolean }): Transaction {
+		const set = (...args: [RecordType<ValueType>] | [KeyPath, ValueType, SetOptions?]): void => {
+			if (args.length === 1) {
+				draft.data = Migrator.keepVersion(draft.data, _cloneDeep(args[0]));
+			} else {
+				const [keyPath, value, options] = args;
+				_set(draft.data as object, keyPath, _cloneDeep(value));
+				setExpiration(draft.data, keyPath, options?.ttl);
+			}
+			draft.changed = true;
+		};
+
+		return {
+			get: <T extends ValueType>(keyPath?: KeyPath): T => {
+				const obj = this.view(draft.data);
+				return _cloneDeep(keyPath ? _get(obj, keyPath) : obj) as T;
+			},
+			set,
+			has: (keyPath: KeyPath): boolean => _has(this.view(draft.data), keyPath),
+			unset: (keyPath?: KeyPath): void => {
+				if (keyPath) {
+					_unset(draft.data, keyPath);
+					setExpiration(draft.data, keyPath);
+				} else {
+					draft.data = Migrator.keepVersion(draft.data, {});
+				}
+				draft.changed = true;
+			},
+		};
+	}
+
+	/**
+	 * Loads the key values to modify them, with the expired values already removed,
+	 * so a value written at or below an expired key path isn't removed along with it on save.
+	 *
+	 * @returns A promise which resolves with the key values.
+	 * @internal
+	 */
+	private async loadForUpdate<T extends ValueType>(): Promise<T> {
+		const obj = await this.load<T>();
+		removeExpiredKeys(obj);
+
+		return obj;
+	}
+
+	/**
+	 * Loads the key values synchronously to modify them, with the expired values already removed,
+	 * so a value written at or below an expired key path isn't removed along with it on save.
+	 *
+	 * @returns The key values.
+	 * @internal
+	 */
+	private loadForUpdateSync<T extends ValueType>(): T {
+		const obj = this.loadSync<T>();
+		removeExpiredKeys(obj);
+
+		return obj;
+	}
+
+	/**
+	 * Loads the key values, running the pending migrations first, and validating
+	 * them against the schema if the `validateOnLoad` option is enabled.
+	 *
+	 * @returns A promise which resolves with the key values.
+	 * @internal
+	 */
+	private async load<T extends ValueType>(): Promise<T> {
+		if (this.migrator && !this.migrated) await this.migrate();
+
+		const obj = await this.loadStored<T>();
+		if (this.options.validateOnLoad) this.validator?.validate(this.view(obj));
+
+		return obj;
+	}
+
+	/**
+	 * Loads the key values synchronously, running the pending migrations first, and
+	 * validating them against the schema if the `validateOnLoad` option is enabled.
+	 *
+	 * @returns The key values.
+	 * @internal
+	 */
+	private loadSync<T extends ValueType>(): T {
+		if (this.migrator && !this.migrated) this.migrateSync();
+
+		const obj = this.loadStoredSync<T>();
+		if (this.options.validateOnLoad) this.validator?.validate(this.view(obj));
+
+		return obj;
+	}
+
+	/**
+	 * Runs the pending migrations and saves their result at once,
+	 * holding the write queue and the file lock meanwhile.
+	 *
+	 * @returns A promise which resolves when the key values are up to date.
+	 * @internal
+	 */
+	private async migrate(): Promise<void> {
+		await this.enqueue(async () => {
+			if (this.migrated) return;
+
+			const next = this.migrator?.run(await this.loadStored());
+			if (next !== undefined) await this.save(next);
+
+			this.migrated = true;
+		});
+	}
+
+	/**
+	 * Runs the pending migrations synchronously and saves their result at once,
+	 * holding the file lock meanwhile.
+	 *
+	 * @internal
+	 */
+	private migrateSync(): void {
+		this.exclusiveSync(() => {
+			const next = this.migrator?.run(this.loadStoredSync());
+			if (next !== undefined) this.saveSync(next);
+
+			this.migrated = true;
+		});
+	}
+
+	/**
+	 * Returns a copy of the pending key values, if any, else loads them from the storage.
+	 *
+	 * @returns A promise which resolves with the stored key values.
+	 * @internal
+	 */
+	private async loadStored<T extends ValueType>(): Promise<T> {
+		return this.pending === undefined ? this.adapter.load<T>() : (_cloneDeep(this.pending) as T);
+	}
+
+	/**
+	 * Returns a copy of the pending key values, if any, else loads them from the storage synchronously.
+	 *
+	 * @returns The stored key values.
+	 * @internal
+	 */
+	private loadStoredSync<T extends ValueType>(): T {
+		return this.pending === undefined ? this.adapter.loadSync<T>() : (_cloneDeep(this.pending) as T);
+	}
+
+	/**
+	 * Removes the expired values, validates the key values, merged with the defaults,
+	 * against the schema, if any, and saves them, or keeps them pending if the `writeDelay` option is set.
+	 *
+	 * @param obj The key values to save.
+	 * @returns A promise which resolves when the key values have been saved.
+	 * @internal
+	 */
+	private async save<T>(obj: T): Promise<void> {
+		removeExpiredKeys(obj as ValueType);
+		this.validator?.validate(this.view(obj));
+
+		if (this.options.writeDelay) this.defer(obj as ValueType);
+		else await this.adapter.save(obj);
+	}
+
+	/**
+	 * Removes the expired values, validates the key values, merged with the defaults, against
+	 * the schema, if any, and saves them synchronously, or keeps them pending if the `writeDelay` option is set.
+	 *
+	 * @param obj The key values to save.
+	 * @internal
+	 */
+	private saveSync<T>(obj: T): void {
+		removeExpiredKeys(obj as ValueType);
+		this.validator?.validate(this.view(obj));
+
+		if (this.options.writeDelay) this.defer(obj as ValueType);
+		else this.adapter.saveSync(obj);
+	}
+
+	/**
+	 * Keeps the key values pending and restarts the timer writing them once the `writeDelay` has elapsed.
+	 * A failed write stays pending, and is tried again by the next flush or when the process exits.
+	 *
+	 * @param obj The key values to write.
+	 * @internal
+	 */
+	private defer(obj: ValueType): void {
+		if (this.pending === undefined) this.register();
+		this.pending = _cloneDeep(obj);
+
+		clearTimeout(this.flushTimer);
+		this.flushTimer = outsideWriteQueue(() =>
+			setTimeout(() => {
+				this.flushTimer = undefined;
+				this.flush().catch(() => undefined);
+			}, this.options.writeDelay)
+		);
+		this.flushTimer.unref();
+	}
+
+	/**
+	 * Forgets the pending key values once they have been written, unless they changed meanwhile.
+	 *
+	 * @param written The pending key values that were written.
+	 * @internal
+	 */
+	private settle(written: ValueType): void {
+		if (this.pending !== written) return;
+
+		this.pending = undefined;
+		this.unregister();
+	}
+
+	/**
+	 * Writes the pending key values, if any, to the storage.
+	 *
+	 * @returns A promise which resolves when the pending key values have been written.
+	 * @internal
+	 */
+	private async writePending(): Promise<void> {
+		clearTimeout(this.flushTimer);
+
+		const data = this.pending;
+		if (data === undefined) return;
+
+		await this.adapter.save(data);
+		this.settle(data);
+	}
+
+	/**
+	 * Writes the pending key values, if any, to the storage synchronously.
+	 *
+	 * @internal
+	 */
+	private writePendingSync(): void {
+		clearTimeout(this.flushTimer);
+
+		const data = this.pending;
+		if (data === undefined) return;
+
+		this.adapter.saveSync(data);
+		this.settle(data);
+	}
+
+	/**
+	 * Writes the pending key values of the other instances sharing the storage of this one,
+	 * so the task about to run reads their changes instead of overwriting them later.
+	 *
+	 * @returns A promise which resolves when the pending key values have been written.
+	 * @internal
+	 */
+	private async flushOthers(): Promise<void> {
+		for (const instance of [...(KeyValues.deferred.get(this.queueKey()) ?? [])]) {
+			if (instance !== this) await instance.writePending();
+		}
+	}
+
+	/**
+	 * Writes the pending key values of the other instances sharing the storage of this one synchronously.
+	 *
+	 * @internal
+	 */
+	private flushOthersSync(): void {
+		for (const instance of [...(KeyValues.deferred.get(this.queueKey()) ?? [])]) {
+			if (instance !== this) instance.writePendingSync();
+		}
+	}
+
+	/**
+	 * Records this instance as holding pending key values, listening
+	 * for the process exit if it is the first instance to do so.
+	 *
+	 * @internal
+	 */
+	private register(): void {
+		if (KeyValues.deferred.size === 0) process.on("exit", KeyValues.flushOnExit);
+
+		const key = this.queueKey();
+		const instances = KeyValues.deferred.get(key) ?? new Set<KeyValues>();
+		KeyValues.deferred.set(key, instances.add(this));
+	}
+
+	/**
+	 * Forgets this instance as holding pending key values, no longer listening
+	 * for the process exit if it was the last instance to do so.
+	 *
+	 * @internal
+	 */
+	private unregister(): void {
+		const key = this.queueKey();
+		const instances = KeyValues.deferred.get(key);
+		instances?.delete(this);
+		if (instances?.size === 0) KeyValues.deferred.delete(key);
+
+		if (KeyValues.deferred.size === 0) process.off("exit", KeyValues.flushOnExit);
+	}
+
+	/**
+	 * Notifies the subscribers about the key values just saved by
+	 * this instance, and remembers them while watching the file so the
+	 * watcher doesn't report the same change again.
+	 * Subscribers run outside of the write queue turn, so the writes they make are queued.
+	 *
+	 * @param obj The key values after the change.
+	 * @param previous The snapshot taken before the change.
+	 * @internal
+	 */
+	private notify(obj: ValueType, previous: ValueType | undefined): void {
+		if (this.watcher) this.watched = _cloneDeep(obj);
+		if (!this.emitter.hasListeners || previous === undefined) return;
+
+		outsideWriteQueue(() => this.emitter.emit(this.view(obj), this.view(previous)));
+	}
+
+	/**
+	 * Reloads the watched file and notifies the subscribers about what changed.
+	 * Unreadable content (e.g. a half-written file) is ignored until the next change.
+	 * The reload is queued like a write, so it never reads the file before one of this
+	 * instance's own writes and reports it afterwards as reverted.
+	 *
+	 * @internal
+	 */
+	private reloadWatched(): Promise<void> {
+		return this.enqueue(async () => {
+			let obj: ValueType;
+			try {
+				obj = await this.load();
+			} catch {
+				return;
+			}
+
+			if (!this.watcher) return;
+
+			const previous = this.watched;
+			this.watched = _cloneDeep(obj);
+			outsideWriteQueue(() => this.emitter.emit(this.view(obj), previous === undefined ? undefined : this.view(previous)));
+		});
+	}
+
+	/**
+	 * Queues an asynchronous read-modify-write task behind every other
+	 * mutation of the same file, shared by all instances pointing to it,
+	 * and holds the file lock while it runs if the `lock` option is enabled.
+	 * The key values kept pending by the other instances are written first.
+	 *
+	 * @param task The task to run.
+	 * @returns A promise which resolves with the result of the task.
+	 * @internal
+	 */
+	private enqueue<R>(task: () => Promise<R>): Promise<R> {
+		const run = async (): Promise<R> => {
+			await this.flushOthers();
+			return task();
+		};
+
+		return enqueueWrite(this.queueKey(), () => (this.options.lock ? this.fileLock.run(run) : run()));
+	}
+
+	/**
+	 * Returns the key the write queue is shared by: the custom
+	 * storage adapter, if any, else the resolved path to the JSON file.
+	 *
+	 * @returns The write queue key.
+	 * @internal
+	 */
+	private queueKey(): string | StorageAdapter {
+		return this.options.adapter ?? path.resolve(this.file());
+	}
+
+	/**
+	 * Runs a synchronous read-modify-write task, holding the
+	 * file lock while it runs if the `lock` option is enabled.
+	 * The key values kept pending by the other instances are written first.
+	 *
+	 * @param task The task to run.
+	 * @returns The result of the task.
+	 * @internal
+	 */
+	private exclusiveSync<R>(task: () => R): R {
+		const run = (): R => {
+			this.flushOthersSync();
+			return task();
+		};
+
+		return this.options.lock ? this.fileLock.runSync(run) : run();
 	}
 }
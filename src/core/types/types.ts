@@ -1,3 +1,5 @@
+import type { SchemaObject } from "ajv";
+
 /**
  * `Options` types contain all the configuration options for
  * Options that can be set in the constructor of KeyValues Class
@@ -38,6 +40,21 @@ export type Options = {
 	 */
 	fileName: string;
 
+	/**
+	 * The format of the settings file.
+	 * Defaults to `"yaml"` when `fileName` ends with `.yaml` or `.yml`,
+	 * `"jsonc"` when it ends with `.jsonc` or `.json5`, else `"json"`.
+	 *
+	 * @example
+	 *
+	 * ```js
+	 * const kvs = new KeyValues({ fileName: "config.yaml" });
+	 * await kvs.set("server.port", 8080);
+	 * // config.yaml => "server:\n  port: 8080\n"
+	 * ```
+	 */
+	format?: FileFormat;
+
 	/**
 	 * Whether or not to prettify the data when it's saved to disk.
 	 *
@@ -52,6 +69,623 @@ export type Options = {
 	 * @default 2
 	 */
 	numSpaces: number;
+
+	/**
+	 * Whether or not to keep the parsed key values in memory.
+	 * The cached data is reused until the file's modification time
+	 * or size changes, and is updated in place on every save.
+	 *
+	 * @default false
+	 */
+	cache?: boolean;
+
+	/**
+	 * Whether or not to hold an advisory lock file (`<file>.lock`) while
+	 * `set`/`unset` and their sync variants read and write the keyvalues file,
+	 * so several processes sharing the same file don't overwrite each other's changes.
+	 *
+	 * Pass a {@link LockOptions} object to customize how the lock is acquired.
+	 * The lock doesn't cover the changes kept pending by the `writeDelay` option.
+	 *
+	 * @default false
+	 */
+	lock?: boolean | LockOptions;
+
+	/**
+	 * A JSON Schema the whole key values must match.
+	 *
+	 * The key values are validated before being saved, and a write that
+	 * doesn't match the schema is rejected with an error listing the failing key paths.
+	 *
+	 * @example
+	 *
+	 * ```js
+	 * new KeyValues({
+	 * 	schema: {
+	 * 		type: "object",
+	 * 		properties: { theme: { type: "string", enum: ["light", "dark"] } },
+	 * 	},
+	 * });
+	 * ```
+	 */
+	schema?: SchemaObject;
+
+	/**
+	 * Whether or not to also validate the key values against
+	 * the `schema` when they are loaded from the disk.
+	 *
+	 * @default false
+	 */
+	validateOnLoad?: boolean;
+
+	/**
+	 * Default key values, deep-merged under the stored key values when reading.
+	 *
+	 * Key paths that were never set, or were unset, return their default value.
+	 * The defaults are not written to the disk unless `reset()` is called.
+	 *
+	 * @example
+	 *
+	 * ```js
+	 * const kvs = new KeyValues({ defaults: { window: { width: 800, height: 600 } } });
+	 * await kvs.get("window.width");
+	 * // => 800
+	 * ```
+	 */
+	defaults?: RecordType<ValueType>;
+
+	/**
+	 * Data migrations, keyed by the version they upgrade the key values to.
+	 *
+	 * On first load, every migration whose version is greater than the version
+	 * stored in the file runs in ascending version order, and the last version is
+	 * stored under the reserved `__internal__` key, which is never returned by `get()`.
+	 * If a migration throws, none of the changes made by the pending migrations are saved.
+	 *
+	 * @example
+	 *
+	 * ```js
+	 * new KeyValues({
+	 * 	migrations: {
+	 * 		"1.0.0": (store) => store.set("theme", "light"),
+	 * 		"2.0.0": (store) => {
+	 * 			store.set("appearance.theme", store.get("theme"));
+	 * 			store.unset("theme");
+	 * 		},
+	 * 	},
+	 * });
+	 * ```
+	 */
+	migrations?: Record<string, Migration>;
+
+	/**
+	 * A key used to encrypt the keyvalues file at rest with AES-256-GCM.
+	 *
+	 * Loading a file that was encrypted with another key, that was modified
+	 * outside of KeyValues or that is not encrypted fails with an error.
+	 * Use `rotateEncryptionKey()` to change the key of an existing file.
+	 */
+	encryptionKey?: string | Buffer;
+
+	/**
+	 * A custom storage backend for the key values.
+	 *
+	 * Defaults to the JSON file described by `dir` and `fileName`.
+	 * File-specific options, such as `atomicSave`, `prettify`, `cache` or
+	 * `encryptionKey`, only apply to the default JSON file storage.
+	 *
+	 * @example
+	 *
+	 * ```js
+	 * const kvs = new KeyValues({ adapter: new MemoryAdapter() });
+	 * ```
+	 */
+	adapter?: StorageAdapter;
+
+	/**
+	 * The number of rotating backups of the settings file to keep.
+	 *
+	 * After each successful save, the backups are shifted
+	 * (`<file>.bak.1` becomes `<file>.bak.2`, and so on, up to `<file>.bak.N`)
+	 * and the saved content is copied to `<file>.bak.1`.
+	 *
+	 * @default 0
+	 */
+	backups?: number;
+
+	/**
+	 * What to do when the settings file can't be parsed, e.g. after being truncated or hand-edited into invalid syntax.
+	 *
+	 * - `"throw"`: rejects every read with the parse error.
+	 * - `"restoreBackup"`: restores the newest backup that can be parsed (see `backups`), or throws if none can.
+	 * - `"reset"`: replaces the settings file with empty key values.
+	 * - A {@link CorruptionCallback} choosing one of the above for the given error.
+	 *
+	 * A file that can't be decrypted is never considered corrupt, since the `encryptionKey` may be wrong.
+	 *
+	 * @default "throw"
+	 *
+	 * @example
+	 *
+	 * ```js
+	 * const kvs = new KeyValues({
+	 * 	backups: 3,
+	 * 	onCorrupt: "restoreBackup",
+	 * 	onRecover: ({ backup }) => console.warn(`settings restored from ${backup}`),
+	 * });
+	 * ```
+	 */
+	onCorrupt?: CorruptionStrategy | CorruptionCallback;
+
+	/**
+	 * Called after a corrupt settings file was recovered according to `onCorrupt`,
+	 * with the strategy applied and the backup that was restored, if any.
+	 */
+	onRecover?: (info: RecoveryInfo) => void;
+
+	/**
+	 * Whether to store `Date`, `Map`, `Set`, `BigInt` and `Buffer` values as tagged objects,
+	 * such as `{ "__type__": "Date", "value": "2024-01-01T00:00:00.000Z" }`, so they are
+	 * restored with their type when the keyvalues file is loaded. Without it, they are
+	 * written as plain JSON, and `BigInt` values can't be written at all.
+	 *
+	 * @default false
+	 */
+	richTypes?: boolean;
+
+	/**
+	 * The serializers of user-defined classes, keyed by the type name written in the tagged objects.
+	 *
+	 * They are used when `richTypes` is enabled, and take precedence over the built-in types.
+	 *
+	 * @example
+	 *
+	 * ```js
+	 * const kvs = new KeyValues({
+	 * 	richTypes: true,
+	 * 	serializers: {
+	 * 		Point: {
+	 * 			type: Point,
+	 * 			serialize: (point) => [point.x, point.y],
+	 * 			deserialize: ([x, y]) => new Point(x, y),
+	 * 		},
+	 * 	},
+	 * });
+	 * ```
+	 */
+	serializers?: Record<string, Serializer>;
+
+	/**
+	 * The time, in milliseconds, to keep changes in memory before writing them to the storage.
+	 *
+	 * Changes made within the delay are coalesced into a single write, the delay restarting with each change.
+	 * The reads of the same instance see the pending changes, other instances and processes only once written.
+	 * Another instance of this process changing the same storage writes them first, so neither change is lost.
+	 * Other processes aren't guarded though, even with the `lock` option: the pending changes are written
+	 * under the lock, but overwrite whatever another process wrote since they were made.
+	 * Use `flush()` or `flushSync()` to write them right away; they are also written, on a best-effort basis,
+	 * when the process exits.
+	 *
+	 * @default 0
+	 *
+	 * @example
+	 *
+	 * ```js
+	 * const kvs = new KeyValues({ writeDelay: 500 });
+	 *
+	 * slider.on("input", (value) => kvs.setSync("volume", value));
+	 * ```
+	 */
+	writeDelay?: number;
+};
+
+/**
+ * `Serializer` converts the instances of a user-defined class to storable values and back.
+ *
+ * @see {@link Options.serializers}
+ *
+ * @category Types
+ */
+export type Serializer<T extends object = object, D extends ValueType = ValueType> = {
+	/**
+	 * The class of the values, matched with `instanceof`.
+	 */
+	type: abstract new (
+		...args: never[]
+	) => T;
+
+	/**
+	 * Converts an instance to a storable value, which may itself hold rich types.
+	 */
+	serialize(value: T): D;
+
+	/**
+	 * Converts a stored value back to an instance.
+	 */
+	deserialize(data: D): T;
+};
+
+/**
+ * `CorruptionStrategy` is what to do when the settings file can't be parsed.
+ *
+ * @category Types
+ */
+export type CorruptionStrategy = "throw" | "restoreBackup" | "reset";
+
+/**
+ * `CorruptionCallback` is a function called when the settings file can't be parsed.
+ *
+ * It receives the parse error and the path of the settings file, and returns the
+ * {@link CorruptionStrategy} to apply. Returning nothing rethrows the error.
+ *
+ * @example
+ * ```js
+ * const kvs = new KeyValues({
+ * 	backups: 3,
+ * 	onCorrupt: (error, filePath) => (filePath.endsWith(".cache.json") ? "reset" : "restoreBackup"),
+ * });
+ * ```
+ *
+ * @category Types
+ */
+export type CorruptionCallback = (error: Error, filePath: string) => CorruptionStrategy | undefined;
+
+/**
+ * `RecoveryInfo` describes how a corrupt settings file was recovered.
+ *
+ * @category Types
+ */
+export type RecoveryInfo = {
+	/**
+	 * The path of the settings file that was corrupt.
+	 */
+	filePath: string;
+
+	/**
+	 * The error raised while parsing the settings file.
+	 */
+	error: Error;
+
+	/**
+	 * The strategy that recovered the settings file.
+	 */
+	strategy: Exclude<CorruptionStrategy, "throw">;
+
+	/**
+	 * The path of the backup the settings file was restored from, when `strategy` is `"restoreBackup"`.
+	 */
+	backup?: string;
+};
+
+/**
+ * `FileFormat` is the format the key values are written to the settings file in.
+ *
+ * - `"json"`: JSON, written on a single line unless `prettify` is set.
+ * - `"jsonc"`: JSON with comments and trailing commas, read along with the rest of the JSON5 syntax
+ *   (unquoted keys, single-quoted strings, hexadecimal numbers, `Infinity` and `NaN`, read as `null`).
+ *   Saving only rewrites the changed key paths, so existing comments, the syntax and order of
+ *   untouched keys and the layout of their values are kept; written values are formatted as JSON.
+ * - `"yaml"`: YAML, always written in block style, indented by `numSpaces` if `prettify` is set.
+ *
+ * @category Types
+ */
+export type FileFormat = "json" | "jsonc" | "yaml";
+
+/**
+ * `StorageAdapter` is the contract a storage backend must fulfil to be used by KeyValues.
+ *
+ * Every method has an asynchronous and a synchronous variant, used by the
+ * matching asynchronous and synchronous methods of KeyValues.
+ *
+ * @example
+ * ```js
+ * class SessionAdapter {
+ * 	async load() { return this.loadSync(); }
+ * 	loadSync() { return JSON.parse(sessionStorage.getItem("kvs") ?? "{}"); }
+ * 	async save(obj) { this.saveSync(obj); }
+ * 	saveSync(obj) { sessionStorage.setItem("kvs", JSON.stringify(obj)); }
+ * 	async exists() { return this.existsSync(); }
+ * 	existsSync() { return sessionStorage.getItem("kvs") !== null; }
+ * 	async delete() { this.deleteSync(); }
+ * 	deleteSync() { sessionStorage.removeItem("kvs"); }
+ * }
+ *
+ * const kvs = new KeyValues({ adapter: new SessionAdapter() });
+ * ```
+ *
+ * @category Types
+ */
+export type StorageAdapter = {
+	/**
+	 * Loads the key values, or an empty object if nothing was saved yet.
+	 * The returned object may be modified by the caller.
+	 */
+	load<T extends ValueType>(): Promise<T>;
+
+	/**
+	 * Loads the key values synchronously, or an empty object if nothing was saved yet.
+	 * The returned object may be modified by the caller.
+	 */
+	loadSync<T extends ValueType>(): T;
+
+	/**
+	 * Saves the key values, replacing the previous ones.
+	 */
+	save<T>(obj: T): Promise<void>;
+
+	/**
+	 * Saves the key values synchronously, replacing the previous ones.
+	 */
+	saveSync<T>(obj: T): void;
+
+	/**
+	 * Checks if any key values were saved.
+	 */
+	exists(): Promise<boolean>;
+
+	/**
+	 * Checks synchronously if any key values were saved.
+	 */
+	existsSync(): boolean;
+
+	/**
+	 * Deletes the saved key values.
+	 */
+	delete(): Promise<void>;
+
+	/**
+	 * Deletes the saved key values synchronously.
+	 */
+	deleteSync(): void;
+};
+
+/**
+ * `MigrationContext` gives a migration access to the key values being upgraded.
+ * Changes are only saved once every pending migration has succeeded.
+ *
+ * @category Types
+ */
+export type MigrationContext = {
+	/**
+	 * The version stored before the pending migrations started, if any.
+	 */
+	readonly fromVersion: string | undefined;
+
+	/**
+	 * The version of the migration being run.
+	 */
+	readonly toVersion: string;
+
+	/**
+	 * Gets the value at the given key path, or all key values if omitted.
+	 */
+	get<T extends ValueType>(keyPath?: KeyPath): T;
+
+	/**
+	 * Sets the value at the given key path.
+	 */
+	set<T extends ValueType>(keyPath: KeyPath, value: T): void;
+
+	/**
+	 * Checks if the given key path exists.
+	 */
+	has(keyPath: KeyPath): boolean;
+
+	/**
+	 * Unsets the property at the given key path.
+	 */
+	unset(keyPath: KeyPath): void;
+};
+
+/**
+ * `Transaction` gives a transaction function access to a working copy of the key values.
+ *
+ * Every method applies to the working copy only, which is saved at once when the
+ * transaction function returns, or discarded if it throws.
+ *
+ * @example
+ * ```js
+ * await keyValues.transaction((tx) => {
+ * 	tx.set("theme.color", tx.get("color.name"));
+ * 	tx.unset("color");
+ * });
+ * ```
+ *
+ * @category Types
+ */
+export type Transaction = {
+	/**
+	 * Gets the value at the given key path, or all key values if omitted.
+	 */
+	get<T extends ValueType>(keyPath?: KeyPath): T;
+
+	/**
+	 * Replaces all key values.
+	 */
+	set<T extends ValueType>(obj: RecordType<T>): void;
+
+	/**
+	 * Sets the value at the given key path.
+	 */
+	set<T extends ValueType>(keyPath: KeyPath, value: T, options?: SetOptions): void;
+
+	/**
+	 * Checks if the given key path exists.
+	 */
+	has(keyPath: KeyPath): boolean;
+
+	/**
+	 * Unsets the property at the given key path, or all key values if omitted.
+	 */
+	unset(keyPath?: KeyPath): void;
+};
+
+/**
+ * `Scope` gives access to the key values below a key path prefix, as if they were a store of their own.
+ *
+ * Every key path is relative to the prefix, `get()` returns the subtree at the prefix,
+ * and `unset()` removes the subtree only.
+ *
+ * @example
+ * ```js
+ * const markdown = keyValues.scope("plugins.markdown");
+ *
+ * await markdown.set("enabled", true); // sets "plugins.markdown.enabled"
+ * await markdown.get();
+ * // => { enabled: true }
+ * ```
+ *
+ * @category Types
+ */
+export type Scope = {
+	/**
+	 * The key path prefix of the scope.
+	 */
+	readonly prefix: string[];
+
+	/**
+	 * Gets the value at the given key path, or the subtree at the prefix if omitted.
+	 */
+	get<T extends ValueType>(keyPath?: KeyPath): Promise<T>;
+
+	/**
+	 * Gets the value at the given key path, or the subtree at the prefix if omitted, synchronously.
+	 */
+	getSync<T extends ValueType>(keyPath?: KeyPath): T;
+
+	/**
+	 * Replaces the subtree at the prefix.
+	 */
+	set<T extends ValueType>(obj: RecordType<T>): Promise<void>;
+
+	/**
+	 * Sets the value at the given key path.
+	 */
+	set<T extends ValueType>(keyPath: KeyPath, value: T, options?: SetOptions): Promise<void>;
+
+	/**
+	 * Replaces the subtree at the prefix synchronously.
+	 */
+	setSync<T extends ValueType>(obj: RecordType<T>): void;
+
+	/**
+	 * Sets the value at the given key path synchronously.
+	 */
+	setSync<T extends ValueType>(keyPath: KeyPath, value: T, options?: SetOptions): void;
+
+	/**
+	 * Checks if the given key path exists.
+	 */
+	has(keyPath: KeyPath): Promise<boolean>;
+
+	/**
+	 * Checks if the given key path exists synchronously.
+	 */
+	hasSync(keyPath: KeyPath): boolean;
+
+	/**
+	 * Unsets the property at the given key path, or the subtree at the prefix if omitted.
+	 */
+	unset(keyPath?: KeyPath): Promise<boolean>;
+
+	/**
+	 * Unsets the property at the given key path, or the subtree at the prefix if omitted, synchronously.
+	 */
+	unsetSync(keyPath?: KeyPath): boolean;
+
+	/**
+	 * Returns a nested scope, relative to this one.
+	 */
+	scope(keyPath: KeyPath): Scope;
+};
+
+/**
+ * `Migration` is a synchronous function that upgrades the key values to a new version.
+ *
+ * @category Types
+ */
+export type Migration = (context: MigrationContext) => void;
+
+/**
+ * `LockOptions` customize how the advisory lock file is acquired.
+ *
+ * @example
+ *
+ * ```js
+ * const kvs = new KeyValues({ lock: { timeout: 10000 } })
+ * ```
+ *
+ * @category Types
+ */
+export type LockOptions = {
+	/**
+	 * The age, in milliseconds, after which an existing lock file
+	 * is considered abandoned and is taken over.
+	 * A held lock file is refreshed every `stale / 2` milliseconds, so it
+	 * only becomes stale when its holder exits without releasing it.
+	 *
+	 * @default 10000
+	 */
+	stale?: number;
+
+	/**
+	 * The maximum time, in milliseconds, to wait for the lock before failing.
+	 * Keep it longer than `stale`, so an abandoned lock file can be taken over before waiting fails.
+	 *
+	 * @default 15000
+	 */
+	timeout?: number;
+
+	/**
+	 * The time, in milliseconds, to wait between attempts to acquire the lock.
+	 *
+	 * @default 50
+	 */
+	retryInterval?: number;
+};
+
+/**
+ * `SetOptions` customize how a value is set at a key path.
+ *
+ * @example
+ *
+ * ```js
+ * await keyValues.set("session.token", token, { ttl: 60 * 60 * 1000 });
+ * ```
+ *
+ * @category Types
+ */
+export type SetOptions = {
+	/**
+	 * The time, in milliseconds, after which the value expires.
+	 *
+	 * Expired values are no longer returned by `get()` or reported by `has()`,
+	 * and are removed from the file by the next write or by `purgeExpired()`.
+	 * Setting a key path again without a `ttl` makes its value permanent.
+	 */
+	ttl?: number;
+};
+
+/**
+ * `EnumerateOptions` customize how `keys()`, `values()`, `entries()` and `size()` list the key values.
+ *
+ * @example
+ *
+ * ```js
+ * await keyValues.keys("plugins", { recursive: true });
+ * // => ["git.enabled", "lint.eslint.enabled"]
+ * ```
+ *
+ * @category Types
+ */
+export type EnumerateOptions = {
+	/**
+	 * Whether to list the key paths of the leaf values, in dot notation, instead of the keys of the object only.
+	 * Empty objects and arrays are leaf values.
+	 *
+	 * @default false
+	 */
+	recursive?: boolean;
 };
 
 /**
@@ -72,6 +706,7 @@ export type KeyPath = string | Array<string>;
  * `ValueType` is a type that represents the possible values that can be stored in a key-value pair.
  *
  * It can be null, string, number, boolean, object, DictionaryType, or an array of ValueType.
+ * A `bigint` can only be stored with the `richTypes` option.
  * @example
  * ```js
  * await keyValues.set("createdAt", "2023-04-16");
@@ -91,7 +726,7 @@ export type KeyPath = string | Array<string>;
  *
  * @category Types
  */
-export type ValueType = null | string | number | boolean | object | DictionaryType | Array<ValueType>;
+export type ValueType = null | string | number | bigint | boolean | object | DictionaryType | Array<ValueType>;
 
 /**
  * `RecordType` is a type that represents an object with string keys and values of type `T`, where `T` is a subtype of `ValueType`.
@@ -117,6 +752,251 @@ export type ValueType = null | string | number | boolean | object | DictionaryTy
  */
 export type RecordType<T extends ValueType> = Record<string, T>;
 
+/**
+ * Whether `S` is `any`, the schema of a `KeyValues` instance created without one.
+ * @internal
+ */
+type IsUntyped<S> = 0 extends 1 & S ? true : false;
+
+/**
+ * The remaining depth of the key paths generated from a schema, which keeps recursive schemas finite.
+ * @internal
+ */
+type Depth = [never, 0, 1, 2, 3, 4, 5, 6, 7];
+
+/**
+ * The key paths of a schema in dot notation, with array items addressed by index.
+ * @internal
+ */
+type DotKeyPath<S, D extends number = 8> = [D] extends [never]
+	? never
+	: S extends ReadonlyArray<infer I>
+		? `${number}` | `${number}.${DotKeyPath<I, Depth[D]>}`
+		: S extends object
+			? { [K in keyof S & string]: K | `${K}.${DotKeyPath<NonNullable<S[K]>, Depth[D]>}` }[keyof S & string]
+			: never;
+
+/**
+ * The key paths of a schema as arrays of keys, with array items addressed by index.
+ * @internal
+ */
+type ArrayKeyPath<S, D extends number = 8> = [D] extends [never]
+	? never
+	: S extends ReadonlyArray<infer I>
+		? [`${number}`] | [`${number}`, ...ArrayKeyPath<I, Depth[D]>]
+		: S extends object
+			? { [K in keyof S & string]: [K] | [K, ...ArrayKeyPath<NonNullable<S[K]>, Depth[D]>] }[keyof S & string]
+			: never;
+
+/**
+ * The type of the property of `S` at the key `K`, or `undefined` if there is none.
+ * @internal
+ */
+type ChildType<S, K extends string> = S extends ReadonlyArray<infer I> ? (K extends `${number}` ? I : undefined) : K extends keyof S ? S[K] : undefined;
+
+/**
+ * The type of the value of `S` at a key path in dot notation.
+ * @internal
+ */
+type DotKeyPathValue<S, P extends string> = P extends `${infer K}.${infer Rest}` ? DotKeyPathValue<ChildType<S, K>, Rest> : ChildType<S, P>;
+
+/**
+ * The type of the value of `S` at a key path given as an array of keys.
+ * @internal
+ */
+type ArrayKeyPathValue<S, P extends readonly string[]> = P extends readonly [infer K extends string, ...infer Rest extends string[]] ? ArrayKeyPathValue<ChildType<S, K>, Rest> : S;
+
+/**
+ * `KeyPathOf` is the type of the key paths accepted by a `KeyValues` instance with the schema `S`.
+ *
+ * For a schema, it is the union of its key paths, in dot notation or as arrays of keys,
+ * with array items addressed by index. Without a schema, it is any `KeyPath`.
+ *
+ * @example
+ * ```ts
+ * type Settings = { window: { width: number; height: number } };
+ *
+ * const keyPath: KeyPathOf<Settings> = "window.width";
+ * const keyPathArray: KeyPathOf<Settings> = ["window", "height"];
+ * ```
+ *
+ * @category Types
+ */
+export type KeyPathOf<S> = IsUntyped<S> extends true ? KeyPath : DotKeyPath<S> | ArrayKeyPath<S>;
+
+/**
+ * `KeyPathValue` is the type of the value at the key path `P` of the schema `S`.
+ *
+ * Without a schema, it is `ValueType`. An explicit type `T`, as in `get<number>("count")`, takes precedence;
+ * with a schema, it is never inferred from the surrounding code.
+ *
+ * @example
+ * ```ts
+ * type Settings = { window: { width: number; height: number } };
+ *
+ * type Width = KeyPathValue<Settings, "window.width">; // number
+ * ```
+ *
+ * @category Types
+ */
+export type KeyPathValue<S, P, T = never> = [T] extends [never]
+	? IsUntyped<S> extends true
+		? ValueType
+		: P extends string
+			? DotKeyPathValue<S, P>
+			: P extends readonly string[]
+				? ArrayKeyPathValue<S, P>
+				: never
+	: IsUntyped<S> extends true
+		? T
+		: NoInfer<T>;
+
+/**
+ * `KeyPathItem` is the type of the items of the array at the key path `P` of the schema `S`.
+ *
+ * Without a schema, it is `ValueType`. An explicit type `T`, as in `push<string>("recent", "a.txt")`, takes precedence;
+ * with a schema, it is never inferred from the surrounding code.
+ *
+ * @example
+ * ```ts
+ * type Settings = { recent: string[] };
+ *
+ * type Recent = KeyPathItem<Settings, "recent">; // string
+ * ```
+ *
+ * @category Types
+ */
+export type KeyPathItem<S, P, T = never> = [T] extends [never]
+	? IsUntyped<S> extends true
+		? ValueType
+		: NonNullable<KeyPathValue<S, P>> extends ReadonlyArray<infer I>
+			? I
+			: never
+	: KeyPathValue<S, P, T>;
+
+/**
+ * A `[keyPath, value]` pair of the schema `S`, for each of its key paths.
+ * @internal
+ */
+type KeyPathEntry<S, P = KeyPathOf<S>> = P extends unknown ? [P, KeyPathValue<S, P>] : never;
+
+/**
+ * `SchemaEntries` is the type of the values set at many key paths of a `KeyValues` instance with the schema `S`,
+ * keyed by key path in dot notation or as `[keyPath, value]` pairs.
+ *
+ * @example
+ * ```ts
+ * type Settings = { window: { width: number; height: number } };
+ *
+ * const entries: SchemaEntries<Settings> = { "window.width": 800, "window.height": 600 };
+ * const pairs: SchemaEntries<Settings> = [[["window", "width"], 800]];
+ * ```
+ *
+ * @category Types
+ */
+export type SchemaEntries<S> = IsUntyped<S> extends true
+	? RecordType<ValueType> | Array<[KeyPath, ValueType]>
+	: { [P in DotKeyPath<S>]?: DotKeyPathValue<S, P> } | Array<KeyPathEntry<S>>;
+
+/**
+ * `SchemaType` is the type of all key values of a `KeyValues` instance with the schema `S`,
+ * or `Untyped` without a schema.
+ *
+ * @category Types
+ */
+export type SchemaType<S, Untyped = ValueType> = IsUntyped<S> extends true ? Untyped : S;
+
+/**
+ * `ChangeCallback` is a function called when a watched value changes.
+ *
+ * It receives the new and the previous value, either of which is
+ * `undefined` when the key path did not exist.
+ * @example
+ * ```js
+ * const unsubscribe = keyValues.onDidChange("color.name", (newValue, oldValue) => {
+ * 	console.log(`color changed from ${oldValue} to ${newValue}`);
+ * });
+ * ```
+ *
+ * @category Types
+ */
+export type ChangeCallback<T extends ValueType = ValueType> = (newValue: T | undefined, oldValue: T | undefined) => void;
+
+/**
+ * `AnyChangeCallback` is a function called when any value changes.
+ *
+ * It receives the new and the previous key values, and the key paths
+ * (in dot notation) whose values differ between them.
+ * @example
+ * ```js
+ * keyValues.onDidAnyChange((newValue, oldValue, changedKeys) => {
+ * 	console.log(changedKeys);
+ * 	// => ["color.name", "color.code.rgb.1"]
+ * });
+ * ```
+ *
+ * @category Types
+ */
+export type AnyChangeCallback<T extends ValueType = ValueType> = (newValue: T, oldValue: T, changedKeys: string[]) => void;
+
+/**
+ * `WatchOptions` customize how the keyvalues file is watched for external changes.
+ *
+ * @example
+ * ```js
+ * keyValues.watch({ debounce: 500 });
+ * ```
+ *
+ * @category Types
+ */
+export type WatchOptions = {
+	/**
+	 * The time, in milliseconds, to wait for the file to settle
+	 * before reloading it after a change is detected.
+	 *
+	 * @default 100
+	 */
+	debounce?: number;
+
+	/**
+	 * Whether or not the watcher keeps the process running.
+	 *
+	 * @default false
+	 */
+	persistent?: boolean;
+};
+
+/**
+ * `SnapshotInfo` describes a named snapshot of the key values.
+ *
+ * @example
+ * ```js
+ * await keyValues.listSnapshots();
+ * // => [{ name: "before-import", createdAt: 2026-10-19T13:08:01.123Z }]
+ * ```
+ *
+ * @category Types
+ */
+export type SnapshotInfo = {
+	/**
+	 * The name of the snapshot.
+	 */
+	name: string;
+
+	/**
+	 * When the snapshot was taken.
+	 */
+	createdAt: Date;
+};
+
+/**
+ * `Unsubscribe` is a function returned when subscribing to changes.
+ * Calling it removes the subscription.
+ *
+ * @category Types
+ */
+export type Unsubscribe = () => void;
+
 /**
  * `DictionaryType` is a type that represents an object with string keys and values of type `ValueType`.
  *
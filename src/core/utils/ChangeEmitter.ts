@@ -0,0 +1,138 @@
+import { cloneDeep as _cloneDeep, get as _get, isEqual as _isEqual, isPlainObject as _isPlainObject } from "lodash";
+
+import type { AnyChangeCallback, ChangeCallback, KeyPath, Unsubscribe, ValueType } from "@/core/types/types";
+
+/**
+ * Lists the key paths, in dot notation, whose values differ between two key values.
+ * Objects and arrays are compared key by key, so only the deepest differing key paths are listed.
+ *
+ * @param {unknown} oldValue - The previous value.
+ * @param {unknown} newValue - The new value.
+ * @param {string} prefix - The key path of the compared values.
+ * @returns {string[]} The differing key paths.
+ * @internal
+ * @ignore
+ */
+export function diffKeyPaths(oldValue: unknown, newValue: unknown, prefix = ""): string[] {
+	const isContainer = (value: unknown) => Array.isArray(value) || _isPlainObject(value);
+
+	if (!isContainer(oldValue) || !isContainer(newValue) || Array.isArray(oldValue) !== Array.isArray(newValue)) {
+		return _isEqual(oldValue, newValue) || prefix === "" ? [] : [prefix];
+	}
+
+	const oldObj = oldValue as Record<string, unknown>;
+	const newObj = newValue as Record<string, unknown>;
+	const keys = new Set([...Object.keys(oldObj), ...Object.keys(newObj)]);
+
+	return [...keys].flatMap((key) => diffKeyPaths(oldObj[key], newObj[key], prefix ? `${prefix}.${key}` : key));
+}
+
+/**
+ * This module provides a helper class for notifying subscribers about changes in the key values.
+ * Subscribers are only notified when the value they watch is not deeply equal to its previous value.
+ * A subscriber that throws is reported as a process warning, so the change and the other subscribers are unaffected.
+ *
+ * @module ChangeEmitter
+ * @author Heliomar Marques
+ * @internal
+ * @ignore
+ */
+export class ChangeEmitter {
+	/**
+	 * The subscribers to a specific key path.
+	 * @private
+	 */
+	private keyListeners = new Set<{ keyPath: KeyPath; callback: ChangeCallback }>();
+
+	/**
+	 * The subscribers to any change.
+	 * @private
+	 */
+	private anyListeners = new Set<AnyChangeCallback>();
+
+	/**
+	 * Whether or not there is at least one subscriber.
+	 */
+	get hasListeners(): boolean {
+		return this.keyListeners.size > 0 || this.anyListeners.size > 0;
+	}
+
+	/**
+	 * Subscribes to changes of the value at the given key path.
+	 *
+	 * @param {KeyPath} keyPath - The key path to watch.
+	 * @param {ChangeCallback} callback - The function called with the new and the previous value.
+	 * @returns {Unsubscribe} A function that removes the subscription.
+	 */
+	onDidChange(keyPath: KeyPath, callback: ChangeCallback): Unsubscribe {
+		const listener = { keyPath, callback };
+		this.keyListeners.add(listener);
+
+		return () => {
+			this.keyListeners.delete(listener);
+		};
+	}
+
+	/**
+	 * Subscribes to any change of the key values.
+	 *
+	 * @param {AnyChangeCallback} callback - The function called with the new and the previous key values.
+	 * @returns {Unsubscribe} A function that removes the subscription.
+	 */
+	onDidAnyChange(callback: AnyChangeCallback): Unsubscribe {
+		this.anyListeners.add(callback);
+
+		return () => {
+			this.anyListeners.delete(callback);
+		};
+	}
+
+	/**
+	 * Takes a copy of the key values before they are changed,
+	 * if there is at least one subscriber to compare it with.
+	 *
+	 * @param {T} obj - The key values about to change.
+	 * @returns {T | undefined} A deep copy of `obj`, or `undefined` if nobody is listening.
+	 */
+	snapshot<T>(obj: T): T | undefined {
+		return this.hasListeners ? _cloneDeep(obj) : undefined;
+	}
+
+	/**
+	 * Notifies the subscribers whose watched value differs between the two key values.
+	 *
+	 * @param {ValueType} newObj - The key values after the change.
+	 * @param {ValueType | undefined} oldObj - The snapshot taken before the change.
+	 * @returns {void}
+	 */
+	emit(newObj: ValueType, oldObj: ValueType | undefined): void {
+		if (!this.hasListeners || oldObj === undefined || _isEqual(newObj, oldObj)) return;
+
+		const changedKeys = this.anyListeners.size ? diffKeyPaths(oldObj, newObj) : [];
+
+		for (const { keyPath, callback } of [...this.keyListeners]) {
+			const newValue = _get(newObj, keyPath);
+			const oldValue = _get(oldObj, keyPath);
+
+			if (!_isEqual(newValue, oldValue)) this.call(() => callback(newValue, oldValue));
+		}
+
+		for (const callback of [...this.anyListeners]) {
+			this.call(() => callback(newObj, oldObj, changedKeys));
+		}
+	}
+
+	/**
+	 * Calls a subscriber, reporting what it throws as a process warning instead of throwing it.
+	 *
+	 * @param {() => void} notify - The call to the subscriber.
+	 * @returns {void}
+	 */
+	private call(notify: () => void): void {
+		try {
+			notify();
+		} catch (error) {
+			process.emitWarning(error instanceof Error ? error : String(error), "ChangeListenerWarning");
+		}
+	}
+}
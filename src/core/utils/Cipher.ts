@@ -0,0 +1,111 @@
+import crypto from "node:crypto";
+
+/** @internal */
+const MAGIC = Buffer.from("KVS1");
+/** @internal */
+const SALT_LENGTH = 16;
+/** @internal */
+const IV_LENGTH = 12;
+/** @internal */
+const TAG_LENGTH = 16;
+/** @internal */
+const HEADER_LENGTH = MAGIC.length + SALT_LENGTH + IV_LENGTH + TAG_LENGTH;
+
+/**
+ * This module provides a helper class for encrypting the keyvalues file with AES-256-GCM.
+ *
+ * The encrypted content is laid out as `magic | salt | iv | auth tag | ciphertext`.
+ * The AES key is derived from the encryption key with scrypt, using the salt stored in
+ * the file, and the key derived for the last used salt is memoized so loads don't pay for the derivation again.
+ *
+ * @module Cipher
+ * @author Heliomar Marques
+ * @internal
+ * @ignore
+ */
+export class Cipher {
+	/**
+	 * The encryption key the AES keys are derived from.
+	 * @private
+	 */
+	private secret: string | Buffer;
+
+	/**
+	 * The salt used when encrypting, reused from the last decrypted content.
+	 * @private
+	 */
+	private salt?: Buffer;
+
+	/**
+	 * The AES key derived for the last used salt.
+	 * @private
+	 */
+	private derived?: { salt: Buffer; key: Buffer };
+
+	/**
+	 * Creates an instance of Cipher.
+	 *
+	 * @param {string | Buffer} secret - The encryption key.
+	 */
+	constructor(secret: string | Buffer) {
+		this.secret = secret;
+	}
+
+	/**
+	 * Encrypts and authenticates the content.
+	 *
+	 * @param {string} content - The content to encrypt.
+	 * @returns {Buffer} The encrypted content.
+	 */
+	encrypt(content: string): Buffer {
+		this.salt ??= crypto.randomBytes(SALT_LENGTH);
+
+		const iv = crypto.randomBytes(IV_LENGTH);
+		const cipher = crypto.createCipheriv("aes-256-gcm", this.deriveKey(this.salt), iv);
+		const ciphertext = Buffer.concat([cipher.update(content, "utf-8"), cipher.final()]);
+
+		return Buffer.concat([MAGIC, this.salt, iv, cipher.getAuthTag(), ciphertext]);
+	}
+
+	/**
+	 * Decrypts the content, checking it was encrypted with the same key and not modified since.
+	 *
+	 * @param {Buffer} data - The encrypted content.
+	 * @returns {string} The decrypted content.
+	 * @throws {Error} If the content is not encrypted, was encrypted with another key or was tampered with.
+	 */
+	decrypt(data: Buffer): string {
+		if (data.length < HEADER_LENGTH || !data.subarray(0, MAGIC.length).equals(MAGIC)) {
+			throw new Error("Failed to decrypt key values: the file is not encrypted");
+		}
+
+		const ivStart = MAGIC.length + SALT_LENGTH;
+		const salt = data.subarray(MAGIC.length, ivStart);
+		const iv = data.subarray(ivStart, ivStart + IV_LENGTH);
+		const tag = data.subarray(ivStart + IV_LENGTH, HEADER_LENGTH);
+
+		try {
+			const decipher = crypto.createDecipheriv("aes-256-gcm", this.deriveKey(salt), iv);
+			decipher.setAuthTag(tag);
+			const content = Buffer.concat([decipher.update(data.subarray(HEADER_LENGTH)), decipher.final()]).toString("utf-8");
+
+			this.salt = Buffer.from(salt);
+			return content;
+		} catch {
+			throw new Error("Failed to decrypt key values: wrong encryption key or the file was tampered with");
+		}
+	}
+
+	/**
+	 * Derives the AES key for the given salt.
+	 *
+	 * @param {Buffer} salt - The salt.
+	 * @returns {Buffer} The 256-bit AES key.
+	 */
+	private deriveKey(salt: Buffer): Buffer {
+		if (!this.derived?.salt.equals(salt)) {
+			this.derived = { salt: Buffer.from(salt), key: crypto.scryptSync(this.secret, salt, 32) };
+		}
+		return this.derived.key;
+	}
+}
@@ -0,0 +1,306 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+
+import type { LockOptions } from "@/core/types/types";
+
+/**
+ * A lock held by this process.
+ * @internal
+ */
+type Hold = {
+	/** How many times the lock is held. */
+	count: number;
+	/** The token written in the lock file. */
+	token: string;
+	/** The timer refreshing the modification time of the lock file. */
+	refresher: NodeJS.Timeout;
+};
+
+/** @internal */
+const defaultLockOptions: Required<LockOptions> = {
+	stale: 10000,
+	timeout: 15000,
+	retryInterval: 50,
+};
+
+/**
+ * This module provides an advisory, cross-process lock based on a lock file
+ * created next to the keyvalues file.
+ *
+ * The lock is reentrant within a process: acquiring a lock this process already
+ * holds only increases its hold count, so nested calls don't wait on themselves.
+ * The count is kept per process, not per async context, so any caller in this
+ * process, including a `*Sync` call made elsewhere while a task holds the lock,
+ * acquires it immediately.
+ *
+ * Each lock file holds a unique token, and is only removed by the holder of that token.
+ * While held, its modification time is refreshed every `stale / 2` milliseconds.
+ * Lock files older than `stale` milliseconds are considered abandoned and are taken
+ * over by renaming them to a unique name before a new lock file is created.
+ *
+ * @module FileLock
+ * @author Heliomar Marques
+ * @internal
+ * @ignore
+ */
+export class FileLock {
+	/**
+	 * The locks this process currently holds, keyed by the resolved path of their lock file.
+	 * @private
+	 */
+	private static readonly held = new Map<string, Hold>();
+
+	/**
+	 * The path to the lock file.
+	 */
+	readonly lockPath: string;
+
+	/**
+	 * The options used to acquire the lock.
+	 * @private
+	 */
+	private options: Required<LockOptions>;
+
+	/**
+	 * Creates an instance of FileLock.
+	 *
+	 * @param {string} filePath - The path of the file to protect.
+	 * @param {@link LockOptions} options - The options used to acquire the lock.
+	 */
+	constructor(filePath: string, options?: LockOptions) {
+		this.lockPath = path.resolve(`${filePath}.lock`);
+		this.options = { ...defaultLockOptions, ...options };
+	}
+
+	/**
+	 * Runs a task while holding the lock, releasing it once the task settles.
+	 *
+	 * @param {() => Promise<T>} task - The task to run.
+	 * @returns {Promise<T>} A promise that settles with the result of the task.
+	 */
+	async run<T>(task: () => Promise<T>): Promise<T> {
+		await this.acquire();
+		try {
+			return await task();
+		} finally {
+			this.release();
+		}
+	}
+
+	/**
+	 * Runs a task synchronously while holding the lock, releasing it once the task returns.
+	 *
+	 * @param {() => T} task - The task to run.
+	 * @returns {T} The result of the task.
+	 */
+	runSync<T>(task: () => T): T {
+		this.acquireSync();
+		try {
+			return task();
+		} finally {
+			this.release();
+		}
+	}
+
+	/**
+	 * Acquires the lock, waiting for other processes to release it.
+	 *
+	 * @returns {Promise<void>} A promise that resolves when the lock is held.
+	 * @throws {Error} If the lock could not be acquired within `timeout` milliseconds.
+	 */
+	async acquire(): Promise<void> {
+		if (this.reenter()) return;
+
+		const startedAt = Date.now();
+		await fs.promises.mkdir(path.dirname(this.lockPath), { recursive: true });
+
+		const token = this.createToken();
+		while (!this.tryCreate(token)) {
+			this.checkTimeout(startedAt);
+			await new Promise((resolve) => setTimeout(resolve, this.options.retryInterval));
+		}
+
+		this.hold(token);
+	}
+
+	/**
+	 * Acquires the lock synchronously, blocking until other processes release it.
+	 *
+	 * @returns {void}
+	 * @throws {Error} If the lock could not be acquired within `timeout` milliseconds.
+	 */
+	acquireSync(): void {
+		if (this.reenter()) return;
+
+		const startedAt = Date.now();
+		fs.mkdirSync(path.dirname(this.lockPath), { recursive: true });
+
+		const token = this.createToken();
+		while (!this.tryCreate(token)) {
+			this.checkTimeout(startedAt);
+			Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, this.options.retryInterval);
+		}
+
+		this.hold(token);
+	}
+
+	/**
+	 * Releases one hold of the lock, removing the lock file when the last hold is released
+	 * and the lock file still holds this process's token.
+	 *
+	 * @returns {void}
+	 */
+	release(): void {
+		const hold = FileLock.held.get(this.lockPath);
+		if (!hold) return;
+
+		if (hold.count > 1) {
+			hold.count--;
+			return;
+		}
+
+		clearInterval(hold.refresher);
+		FileLock.held.delete(this.lockPath);
+		if (this.readToken(this.lockPath) === hold.token) {
+			fs.rmSync(this.lockPath, { force: true });
+		}
+	}
+
+	/**
+	 * Increases the hold count if this process already holds the lock.
+	 *
+	 * @returns {boolean} `true` if the lock was already held, else `false`.
+	 */
+	private reenter(): boolean {
+		const hold = FileLock.held.get(this.lockPath);
+		if (!hold) return false;
+
+		hold.count++;
+		return true;
+	}
+
+	/**
+	 * Records the lock as held and starts refreshing the modification time of the lock file,
+	 * so it is not considered stale while the task runs.
+	 *
+	 * @param {string} token - The token written in the lock file.
+	 * @returns {void}
+	 */
+	private hold(token: string): void {
+		const refresher = setInterval(() => {
+			if (this.readToken(this.lockPath) !== token) return;
+
+			const now = new Date();
+			try {
+				fs.utimesSync(this.lockPath, now, now);
+			} catch {
+				// The lock file was removed meanwhile; the next release will notice it.
+			}
+		}, this.options.stale / 2);
+		refresher.unref();
+
+		FileLock.held.set(this.lockPath, { count: 1, token, refresher });
+	}
+
+	/**
+	 * Creates a token identifying one acquisition of the lock.
+	 *
+	 * @returns {string} The token.
+	 */
+	private createToken(): string {
+		return `${process.pid}-${crypto.randomBytes(8).toString("hex")}`;
+	}
+
+	/**
+	 * Reads the token written in a lock file.
+	 *
+	 * @param {string} filePath - The path of the lock file.
+	 * @returns {string | undefined} The token, or `undefined` if the file is missing or holds no token.
+	 */
+	private readToken(filePath: string): string | undefined {
+		try {
+			return JSON.parse(fs.readFileSync(filePath, "utf-8"))?.token;
+		} catch {
+			return undefined;
+		}
+	}
+
+	/**
+	 * Tries to create the lock file, taking it over first if it is stale.
+	 *
+	 * @param {string} token - The token to write in the lock file.
+	 * @returns {boolean} `true` if the lock file was created, else `false`.
+	 */
+	private tryCreate(token: string): boolean {
+		try {
+			fs.writeFileSync(this.lockPath, JSON.stringify({ pid: process.pid, token, createdAt: Date.now() }), { flag: "wx" });
+			return true;
+		} catch (error) {
+			const ex = error as NodeJS.ErrnoException;
+			if (ex?.code !== "EEXIST") throw error;
+		}
+
+		return this.isStale(this.lockPath) && this.takeOver() && this.tryCreate(token);
+	}
+
+	/**
+	 * Moves a stale lock file out of the way by renaming it to a unique name, so two processes
+	 * taking over the same stale lock never remove each other's new lock file.
+	 * If another process replaced the stale lock file in the meantime, its lock file is put back.
+	 *
+	 * @returns {boolean} `true` if the stale lock file is gone, else `false`.
+	 */
+	private takeOver(): boolean {
+		const stalePath = `${this.lockPath}.${this.createToken()}.stale`;
+
+		try {
+			fs.renameSync(this.lockPath, stalePath);
+		} catch (error) {
+			const ex = error as NodeJS.ErrnoException;
+			if (ex?.code === "ENOENT") return true;
+			throw error;
+		}
+
+		if (this.isStale(stalePath)) {
+			fs.rmSync(stalePath, { force: true });
+			return true;
+		}
+
+		try {
+			fs.linkSync(stalePath, this.lockPath);
+		} catch {
+			// Another process created a lock file meanwhile; the renamed one is lost to its holder.
+		}
+		fs.rmSync(stalePath, { force: true });
+		return false;
+	}
+
+	/**
+	 * Checks whether a lock file is older than the `stale` option.
+	 *
+	 * @param {string} filePath - The path of the lock file.
+	 * @returns {boolean} `true` if the lock file is stale, else `false`.
+	 */
+	private isStale(filePath: string): boolean {
+		try {
+			return Date.now() - fs.statSync(filePath).mtimeMs > this.options.stale;
+		} catch (error) {
+			const ex = error as NodeJS.ErrnoException;
+			if (ex?.code === "ENOENT") return false;
+			throw error;
+		}
+	}
+
+	/**
+	 * Throws if the lock has been waited for longer than the `timeout` option.
+	 *
+	 * @param {number} startedAt - The time the first attempt was made.
+	 * @returns {void}
+	 */
+	private checkTimeout(startedAt: number): void {
+		if (Date.now() - startedAt >= this.options.timeout) {
+			throw new Error(`Failed to acquire lock: ${this.lockPath} is still held after ${this.options.timeout}ms`);
+		}
+	}
+}
@@ -0,0 +1,87 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import type { WatchOptions } from "@/core/types/types";
+
+/** @internal */
+const defaultWatchOptions: Required<WatchOptions> = {
+	debounce: 100,
+	persistent: false,
+};
+
+/**
+ * This module provides a helper class for watching a file for modifications.
+ *
+ * The parent directory is watched instead of the file itself, so the watcher
+ * keeps working when the file is replaced by an atomic save. Bursts of events
+ * are debounced into a single call of the change handler.
+ *
+ * @module FileWatcher
+ * @author Heliomar Marques
+ * @internal
+ * @ignore
+ */
+export class FileWatcher {
+	/**
+	 * The underlying directory watcher.
+	 * @private
+	 */
+	private watcher?: fs.FSWatcher;
+
+	/**
+	 * The pending debounce timer.
+	 * @private
+	 */
+	private timer?: NodeJS.Timeout;
+
+	/**
+	 * The options used to watch the file.
+	 * @private
+	 */
+	private options: Required<WatchOptions>;
+
+	/**
+	 * The function called once the file has settled after a change.
+	 * @private
+	 */
+	private onChange: () => void;
+
+	/**
+	 * Creates an instance of FileWatcher and starts watching the file.
+	 *
+	 * @param {string} filePath - The path of the file to watch.
+	 * @param {() => void} onChange - The function called once the file has settled after a change.
+	 * @param {@link WatchOptions} options - The options used to watch the file.
+	 */
+	constructor(filePath: string, onChange: () => void, options?: WatchOptions) {
+		this.options = { ...defaultWatchOptions, ...options };
+		this.onChange = onChange;
+
+		const fileName = path.basename(filePath);
+		this.watcher = fs.watch(path.dirname(filePath), { persistent: this.options.persistent }, (_event, changed) => {
+			if (!changed || changed.toString() === fileName) this.schedule();
+		});
+	}
+
+	/**
+	 * Stops watching the file and cancels any pending change notification.
+	 *
+	 * @returns {void}
+	 */
+	close(): void {
+		clearTimeout(this.timer);
+		this.watcher?.close();
+		this.watcher = undefined;
+	}
+
+	/**
+	 * Restarts the debounce timer.
+	 *
+	 * @returns {void}
+	 */
+	private schedule(): void {
+		clearTimeout(this.timer);
+		this.timer = setTimeout(() => this.onChange(), this.options.debounce);
+		if (!this.options.persistent) this.timer.unref();
+	}
+}
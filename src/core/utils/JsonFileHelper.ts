@@ -1,21 +1,49 @@
 import fs from "node:fs";
 import path from "node:path";
+import { cloneDeep as _cloneDeep } from "lodash";
 import writeFileAtomic from "write-file-atomic";
+import YAML from "yaml";
 
-import type { Options, ValueType } from "@/core/types/types";
+import type { CorruptionStrategy, FileFormat, Options, StorageAdapter, ValueType } from "@/core/types/types";
+import { Cipher } from "./Cipher";
 import { DEFAULT_DIR_NAME, DEFAULT_FILE_NAME } from "./constants";
+import { parseJsonc, updateJsonc } from "./jsonc";
+import { decodeRichTypes, encodeRichTypes } from "./richTypes";
+
+/**
+ * Rethrows a file system error unless it is caused by a missing file.
+ *
+ * @param {unknown} error - The error.
+ * @returns {void}
+ * @internal
+ */
+function ignoreNotFound(error: unknown): void {
+	if ((error as NodeJS.ErrnoException)?.code !== "ENOENT") throw error;
+}
+
+/**
+ * Wraps a thrown value in an Error, if it is not one already.
+ *
+ * @param {unknown} error - The thrown value.
+ * @returns {Error} The error.
+ * @internal
+ */
+function toError(error: unknown): Error {
+	return error instanceof Error ? error : new Error(String(error));
+}
 
 /**
  * This module provides a helper class for managing JSON files in a key-value store.
  * It includes methods for loading, saving, and ensuring the existence of JSON files and directories.
- * It is designed to work with a customizable directory and file name for storing key-value pairs.
+ * It is designed to work with a customizable directory and file name for storing key-value pairs,
+ * and is the default {@link StorageAdapter} of KeyValues.
  *
  * @module JsonFileHelper
  * @author Heliomar Marques
  * @internal
  * @ignore
  */
-export class JsonFileHelper {
+export class JsonFileHelper implements StorageAdapter {
 	/**
 	 * The options for the JsonFileHelper.
 	 * @type {@link Options}
@@ -23,6 +51,19 @@ export class JsonFileHelper {
 	 */
 	options: Options;
 
+	/**
+	 * The parsed key values kept in memory when the `cache` option is enabled,
+	 * along with the file stats they were read from.
+	 * @private
+	 */
+	private cache?: { mtimeMs: number; size: number; data: ValueType };
+
+	/**
+	 * The cipher used when the `encryptionKey` option is set, along with the key it was created for.
+	 * @private
+	 */
+	private cipher?: { key: string | Buffer; instance: Cipher };
+
 	/**
 	 * Creates an instance of JsonFileHelper.
 	 *
@@ -62,20 +103,20 @@ export class JsonFileHelper {
 	 * Ensures that the keyvalues file exists. If it does not
 	 * exist, then it is created.
 	 *
-	 * @returns A promise which resolves when the keyvalues file exists.
+	 * @returns A promise which resolves with the stats of the keyvalues file.
 	 */
-	private async ensureJsonFile(): Promise<void> {
+	private async ensureJsonFile(): Promise<fs.Stats | undefined> {
 		const filePath = this.getJsonFilePath();
 
 		try {
-			await fs.promises.stat(filePath);
+			return await fs.promises.stat(filePath);
 		} catch (error) {
 			const ex = error as NodeJS.ErrnoException;
 			if (ex?.code === "ENOENT") {
 				await this.saveKeyValues({});
-			} else {
-				throw error;
+				return undefined;
 			}
+			throw error;
 		}
 	}
 
@@ -83,20 +124,20 @@ export class JsonFileHelper {
 	 * Ensures that the keyvalues file exists. If it does not
 	 * exist, then it is created.
 	 *
-	 * @returns {void}
+	 * @returns {fs.Stats | undefined} The stats of the keyvalues file, or `undefined` if it was just created.
 	 */
-	private ensureJsonFileSync(): void {
+	private ensureJsonFileSync(): fs.Stats | undefined {
 		const filePath = this.getJsonFilePath();
 
 		try {
-			fs.statSync(filePath);
+			return fs.statSync(filePath);
 		} catch (error) {
 			const ex = error as NodeJS.ErrnoException;
 			if (ex?.code === "ENOENT") {
 				this.saveKeyValuesSync({});
-			} else {
-				throw error;
+				return undefined;
 			}
+			throw error;
 		}
 	}
 
@@ -150,14 +191,22 @@ export class JsonFileHelper {
 	 * @return {Promise<T>} A promise that resolves with the key-value pairs.
 	 */
 	public async loadKeyValues<T extends ValueType>(): Promise<T> {
-		await this.ensureJsonFile();
+		const stats = await this.ensureJsonFile();
+		const cached = this.getCached<T>(stats);
+		if (cached !== undefined) return cached;
 
 		const filePath = this.getJsonFilePath();
-		const data = await fs.promises.readFile(filePath, "utf-8");
-		// fs.promises.readFile com 'utf-8' sempre retorna uma string, então a verificação de array é desnecessária.
-		const jsonData = data || "{}";
+		const content = this.decode(await fs.promises.readFile(filePath));
+		let obj: T;
+
+		try {
+			obj = this.parse<T>(content);
+		} catch (error) {
+			return this.recover<T>(error);
+		}
 
-		return JSON.parse(jsonData) as T;
+		this.setCached(obj, stats);
+		return obj;
 	}
 
 	/**
@@ -167,25 +216,78 @@ export class JsonFileHelper {
 	 * @returns {T} - The loaded key-value pairs.
 	 */
 	public loadKeyValuesSync<T extends ValueType>(): T {
-		this.ensureJsonFileSync();
+		const stats = this.ensureJsonFileSync();
+		const cached = this.getCached<T>(stats);
+		if (cached !== undefined) return cached;
+
 		const filePath = this.getJsonFilePath();
-		const data = fs.readFileSync(filePath, "utf-8");
+		const content = this.decode(fs.readFileSync(filePath));
+		let obj: T;
 
-		return JSON.parse(data.length ? data : "{}") as T;
+		try {
+			obj = this.parse<T>(content);
+		} catch (error) {
+			return this.recoverSync<T>(error);
+		}
+
+		this.setCached(obj, stats);
+		return obj;
 	}
 
 	/**
-	 * Saves the keyvalues to the disk.
+	 * Saves the keyvalues to the disk, then rotates the backups if the `backups` option is set.
 	 *
 	 * @param {T} obj - The keyvalues object to save.
 	 * @return {Promise<void>} A promise that resolves when the keyvalues have been saved.
 	 */
 	public async saveKeyValues<T>(obj: T): Promise<void> {
+		const previous = this.getFormat() === "jsonc" ? await this.readContent() : undefined;
+		const content = this.serialize(obj, previous);
+
+		await this.writeContent(content, obj);
+		await this.rotateBackups(content);
+	}
+
+	/**
+	 * Saves the keyvalues to the disk synchronously, then rotates the backups if the `backups` option is set.
+	 *
+	 * @param {T} obj - The keyvalues object to save.
+	 * @return {void} This function does not return anything.
+	 */
+	public saveKeyValuesSync<T>(obj: T): void {
+		const previous = this.getFormat() === "jsonc" ? this.readContentSync() : undefined;
+		const content = this.serialize(obj, previous);
+
+		this.writeContentSync(content, obj);
+		this.rotateBackupsSync(content);
+	}
+
+	/**
+	 * Writes the file content to the disk and caches the key values it holds.
+	 *
+	 * @param {string | Buffer} content - The file content.
+	 * @param {T} obj - The key values held by `content`.
+	 * @return {Promise<void>} A promise that resolves when the content has been written.
+	 */
+	private async writeContent<T>(content: string | Buffer, obj: T): Promise<void> {
 		const filePath = this.getJsonFilePath();
-		const numSpaces = this.options.prettify ? this.options.numSpaces : 0;
-		const content = JSON.stringify(obj, null, numSpaces);
 
 		await this.ensureJsonDir();
+		await this.writeFile(filePath, content);
+
+		if (this.options.cache) {
+			this.setCached(obj, await fs.promises.stat(filePath));
+		}
+	}
+
+	/**
+	 * Writes a file, atomically if the `atomicSave` option is set.
+	 *
+	 * @param {string} filePath - The path of the file.
+	 * @param {string | Buffer} content - The file content.
+	 * @return {Promise<void>} A promise that resolves when the content has been written.
+	 */
+	private async writeFile(filePath: string, content: string | Buffer): Promise<void> {
 		if (this.options.atomicSave) {
 			await writeFileAtomic(filePath, content);
 		} else {
@@ -194,22 +296,444 @@ export class JsonFileHelper {
 	}
 
 	/**
-	 * Saves the keyvalues to the disk synchronously.
+	 * Writes the file content to the disk synchronously and caches the key values it holds.
 	 *
-	 * @param {T} obj - The keyvalues object to save.
-	 * @return {void} This function does not return anything.
+	 * @param {string | Buffer} content - The file content.
+	 * @param {T} obj - The key values held by `content`.
+	 * @return {void}
 	 */
-	public saveKeyValuesSync<T>(obj: T): void {
+	private writeContentSync<T>(content: string | Buffer, obj: T): void {
 		const filePath = this.getJsonFilePath();
-		const numSpaces = this.options.prettify ? this.options.numSpaces : 0;
-		const data = JSON.stringify(obj, null, numSpaces);
 
 		this.ensureJsonDirSync();
 
 		if (this.options.atomicSave) {
-			writeFileAtomic.sync(filePath, data);
+			writeFileAtomic.sync(filePath, content);
 		} else {
-			fs.writeFileSync(filePath, data);
+			fs.writeFileSync(filePath, content);
 		}
+
+		if (this.options.cache) {
+			this.setCached(obj, fs.statSync(filePath));
+		}
+	}
+
+	/**
+	 * Re-encrypts the keyvalues file with the current `encryptionKey` option, keeping its modification time.
+	 * Does nothing if the file is missing or can't be read with the previous key.
+	 *
+	 * @param {string | Buffer} previousKey - The key the file is encrypted with, or `undefined` if it is not encrypted.
+	 * @return {Promise<void>} A promise that resolves when the file has been re-encrypted.
+	 */
+	public async reencrypt(previousKey?: string | Buffer): Promise<void> {
+		await this.reencryptFile(this.getJsonFilePath(), previousKey);
+	}
+
+	/**
+	 * Re-encrypts the backups that can be read with the previous encryption key with the current
+	 * `encryptionKey` option, so they can still be restored. The others, such as the newest backup
+	 * when it was written with the current key, are kept as they are.
+	 *
+	 * @param {string | Buffer} previousKey - The key the backups are encrypted with, or `undefined` if they are not encrypted.
+	 * @return {Promise<void>} A promise that resolves when the backups have been re-encrypted.
+	 */
+	public async reencryptBackups(previousKey?: string | Buffer): Promise<void> {
+		for (const backup of this.getBackupPaths()) {
+			await this.reencryptFile(backup, previousKey);
+		}
+	}
+
+	/**
+	 * Re-encrypts a file with the current `encryptionKey` option, keeping its modification time,
+	 * if it can be read with the previous key.
+	 *
+	 * @param {string} filePath - The path of the file.
+	 * @param {string | Buffer} previousKey - The key the file is encrypted with, or `undefined` if it is not encrypted.
+	 * @return {Promise<void>} A promise that resolves when the file has been re-encrypted.
+	 */
+	private async reencryptFile(filePath: string, previousKey?: string | Buffer): Promise<void> {
+		const data = await fs.promises.readFile(filePath).catch(() => undefined);
+		if (!data) return;
+
+		let content: string;
+		try {
+			content = this.decode(data, previousKey);
+			this.parse(content);
+		} catch {
+			return;
+		}
+
+		const stats = await fs.promises.stat(filePath);
+		await this.writeFile(filePath, this.encrypt(content));
+		await fs.promises.utimes(filePath, stats.atime, stats.mtime);
+	}
+
+	/**
+	 * Returns the paths of the backups, from the newest to the oldest.
+	 *
+	 * @returns {string[]} The paths of the backups, empty if the `backups` option is not set.
+	 */
+	private getBackupPaths(): string[] {
+		const filePath = this.getJsonFilePath();
+		const count = Math.max(0, Math.floor(this.options.backups ?? 0));
+
+		return Array.from({ length: count }, (_, i) => `${filePath}.bak.${i + 1}`);
+	}
+
+	/**
+	 * Shifts the backups by one, dropping the oldest, and copies the saved content to the newest.
+	 *
+	 * @param {string | Buffer} content - The saved file content.
+	 * @return {Promise<void>} A promise that resolves when the backups have been rotated.
+	 */
+	private async rotateBackups(content: string | Buffer): Promise<void> {
+		const paths = this.getBackupPaths();
+		if (paths.length === 0) return;
+
+		for (let i = paths.length - 1; i > 0; i--) {
+			await fs.promises.rename(paths[i - 1], paths[i]).catch(ignoreNotFound);
+		}
+		await fs.promises.writeFile(paths[0], content);
+	}
+
+	/**
+	 * Shifts the backups by one synchronously, dropping the oldest, and copies the saved content to the newest.
+	 *
+	 * @param {string | Buffer} content - The saved file content.
+	 * @return {void}
+	 */
+	private rotateBackupsSync(content: string | Buffer): void {
+		const paths = this.getBackupPaths();
+		if (paths.length === 0) return;
+
+		for (let i = paths.length - 1; i > 0; i--) {
+			try {
+				fs.renameSync(paths[i - 1], paths[i]);
+			} catch (error) {
+				ignoreNotFound(error);
+			}
+		}
+		fs.writeFileSync(paths[0], content);
+	}
+
+	/**
+	 * Recovers from a keyvalues file that can't be parsed, according to the `onCorrupt` option.
+	 *
+	 * @param {unknown} error - The parse error.
+	 * @returns {Promise<T>} A promise that resolves with the recovered key values.
+	 * @throws {Error} The parse error if the strategy is `"throw"`, or if no backup can be restored.
+	 */
+	private async recover<T extends ValueType>(error: unknown): Promise<T> {
+		const cause = toError(error);
+		const strategy = this.getCorruptionStrategy(cause);
+
+		if (strategy === "reset") {
+			await this.writeContent(this.serialize({}), {});
+			this.options.onRecover?.({ filePath: this.getJsonFilePath(), error: cause, strategy });
+			return {} as T;
+		}
+
+		if (strategy === "restoreBackup") {
+			for (const backup of this.getBackupPaths()) {
+				const data = await fs.promises.readFile(backup).catch(() => undefined);
+				const obj = this.tryParse<T>(data);
+				if (!data || obj === undefined) continue;
+
+				await this.writeContent(data, obj);
+				this.options.onRecover?.({ filePath: this.getJsonFilePath(), error: cause, strategy, backup });
+				return obj;
+			}
+			throw new Error(`Failed to restore key values: no valid backup was found (${cause.message})`);
+		}
+
+		throw cause;
+	}
+
+	/**
+	 * Recovers synchronously from a keyvalues file that can't be parsed, according to the `onCorrupt` option.
+	 *
+	 * @param {unknown} error - The parse error.
+	 * @returns {T} The recovered key values.
+	 * @throws {Error} The parse error if the strategy is `"throw"`, or if no backup can be restored.
+	 */
+	private recoverSync<T extends ValueType>(error: unknown): T {
+		const cause = toError(error);
+		const strategy = this.getCorruptionStrategy(cause);
+
+		if (strategy === "reset") {
+			this.writeContentSync(this.serialize({}), {});
+			this.options.onRecover?.({ filePath: this.getJsonFilePath(), error: cause, strategy });
+			return {} as T;
+		}
+
+		if (strategy === "restoreBackup") {
+			for (const backup of this.getBackupPaths()) {
+				const data = fs.existsSync(backup) ? fs.readFileSync(backup) : undefined;
+				const obj = this.tryParse<T>(data);
+				if (!data || obj === undefined) continue;
+
+				this.writeContentSync(data, obj);
+				this.options.onRecover?.({ filePath: this.getJsonFilePath(), error: cause, strategy, backup });
+				return obj;
+			}
+			throw new Error(`Failed to restore key values: no valid backup was found (${cause.message})`);
+		}
+
+		throw cause;
+	}
+
+	/**
+	 * Returns the strategy to apply to a keyvalues file that can't be parsed.
+	 *
+	 * @param {Error} error - The parse error.
+	 * @returns {CorruptionStrategy} The strategy set by the `onCorrupt` option, or returned by its callback.
+	 */
+	private getCorruptionStrategy(error: Error): CorruptionStrategy {
+		const onCorrupt = this.options.onCorrupt ?? "throw";
+
+		return typeof onCorrupt === "function" ? (onCorrupt(error, this.getJsonFilePath()) ?? "throw") : onCorrupt;
+	}
+
+	/**
+	 * Decrypts and parses the raw content of a backup.
+	 *
+	 * @param {Buffer} data - The raw content of the backup, if it exists.
+	 * @returns {T | undefined} The key values, or `undefined` if the backup is missing or can't be parsed.
+	 */
+	private tryParse<T extends ValueType>(data?: Buffer): T | undefined {
+		if (!data) return undefined;
+
+		try {
+			return this.parse<T>(this.decode(data));
+		} catch {
+			return undefined;
+		}
+	}
+
+	/**
+	 * Loads the key values from the JSON file.
+	 * @see {@link loadKeyValues}
+	 */
+	public load<T extends ValueType>(): Promise<T> {
+		return this.loadKeyValues<T>();
+	}
+
+	/**
+	 * Loads the key values from the JSON file synchronously.
+	 * @see {@link loadKeyValuesSync}
+	 */
+	public loadSync<T extends ValueType>(): T {
+		return this.loadKeyValuesSync<T>();
+	}
+
+	/**
+	 * Saves the key values to the JSON file.
+	 * @see {@link saveKeyValues}
+	 */
+	public save<T>(obj: T): Promise<void> {
+		return this.saveKeyValues(obj);
+	}
+
+	/**
+	 * Saves the key values to the JSON file synchronously.
+	 * @see {@link saveKeyValuesSync}
+	 */
+	public saveSync<T>(obj: T): void {
+		this.saveKeyValuesSync(obj);
+	}
+
+	/**
+	 * Checks if the JSON file exists.
+	 *
+	 * @return {Promise<boolean>} A promise that resolves with `true` if the file exists, else `false`.
+	 */
+	public async exists(): Promise<boolean> {
+		try {
+			await fs.promises.access(this.getJsonFilePath());
+			return true;
+		} catch {
+			return false;
+		}
+	}
+
+	/**
+	 * Checks synchronously if the JSON file exists.
+	 *
+	 * @return {boolean} `true` if the file exists, else `false`.
+	 */
+	public existsSync(): boolean {
+		return fs.existsSync(this.getJsonFilePath());
+	}
+
+	/**
+	 * Deletes the JSON file, if it exists.
+	 *
+	 * @return {Promise<void>} A promise that resolves when the file has been deleted.
+	 */
+	public async delete(): Promise<void> {
+		this.cache = undefined;
+		await fs.promises.rm(this.getJsonFilePath(), { force: true });
+	}
+
+	/**
+	 * Deletes the JSON file synchronously, if it exists.
+	 *
+	 * @return {void}
+	 */
+	public deleteSync(): void {
+		this.cache = undefined;
+		fs.rmSync(this.getJsonFilePath(), { force: true });
+	}
+
+	/**
+	 * Reads the current content of the keyvalues file, decrypting it if needed.
+	 *
+	 * @returns {Promise<string | undefined>} A promise that resolves with the content, or `undefined` if the file does not exist.
+	 */
+	private async readContent(): Promise<string | undefined> {
+		try {
+			return this.decode(await fs.promises.readFile(this.getJsonFilePath()));
+		} catch (error) {
+			const ex = error as NodeJS.ErrnoException;
+			if (ex?.code === "ENOENT") return undefined;
+			throw error;
+		}
+	}
+
+	/**
+	 * Reads the current content of the keyvalues file synchronously, decrypting it if needed.
+	 *
+	 * @returns {string | undefined} The content, or `undefined` if the file does not exist.
+	 */
+	private readContentSync(): string | undefined {
+		try {
+			return this.decode(fs.readFileSync(this.getJsonFilePath()));
+		} catch (error) {
+			const ex = error as NodeJS.ErrnoException;
+			if (ex?.code === "ENOENT") return undefined;
+			throw error;
+		}
+	}
+
+	/**
+	 * Converts the key values to the file content in the file format,
+	 * encrypting it if the `encryptionKey` option is set.
+	 *
+	 * In the `"jsonc"` format, the previous content is edited in place so
+	 * its comments and the order of untouched keys are kept.
+	 * With the `richTypes` option, rich types are written as tagged objects.
+	 *
+	 * @param {T} obj - The key values.
+	 * @param {string} previous - The current content of the file, if any.
+	 * @returns {string | Buffer} The file content.
+	 */
+	private serialize<T>(obj: T, previous?: string): string | Buffer {
+		const format = this.getFormat();
+		const indent = this.options.prettify && this.options.numSpaces > 0 ? this.options.numSpaces : 2;
+		const data = this.options.richTypes ? encodeRichTypes(obj, this.options.serializers) : obj;
+		let content: string | undefined;
+
+		if (format === "yaml") {
+			content = YAML.stringify(data, { indent });
+		} else if (format === "jsonc" && previous?.trim()) {
+			content = updateJsonc(previous, data, indent);
+		}
+		content ??= JSON.stringify(data, null, this.options.prettify ? this.options.numSpaces : 0);
+
+		return this.encrypt(content);
+	}
+
+	/**
+	 * Parses the decrypted file content in the file format.
+	 * An empty file is parsed as an empty object.
+	 * With the `richTypes` option, tagged objects are restored to their rich types.
+	 *
+	 * @param {string} content - The file content.
+	 * @returns {T} The key values.
+	 */
+	private parse<T extends ValueType>(content: string): T {
+		const format = this.getFormat();
+		let obj: unknown;
+
+		if (format === "yaml") obj = YAML.parse(content) ?? {};
+		else if (format === "jsonc") obj = parseJsonc(content || "{}");
+		else obj = JSON.parse(content || "{}");
+
+		return (this.options.richTypes ? decodeRichTypes(obj, this.options.serializers) : obj) as T;
+	}
+
+	/**
+	 * Encrypts the file content if the `encryptionKey` option is set.
+	 *
+	 * @param {string} content - The file content as text.
+	 * @returns {string | Buffer} The raw file content.
+	 */
+	private encrypt(content: string): string | Buffer {
+		return this.options.encryptionKey ? this.getCipher(this.options.encryptionKey).encrypt(content) : content;
+	}
+
+	/**
+	 * Converts the raw file content to text, decrypting it first if an encryption key is given.
+	 *
+	 * @param {Buffer} data - The raw file content.
+	 * @param {string | Buffer} key - The encryption key, the `encryptionKey` option by default.
+	 * @returns {string} The file content as text.
+	 */
+	private decode(data: Buffer, key = this.options.encryptionKey): string {
+		return key && data.length ? this.getCipher(key).decrypt(data) : data.toString("utf-8");
+	}
+
+	/**
+	 * Returns the format of the keyvalues file, detecting it from the file extension
+	 * if the `format` option is not set.
+	 *
+	 * @returns {FileFormat} The format of the keyvalues file.
+	 */
+	private getFormat(): FileFormat {
+		if (this.options.format) return this.options.format;
+
+		const filePath = this.getJsonFilePath();
+		if (/\.ya?ml$/i.test(filePath)) return "yaml";
+
+		return /\.json[c5]$/i.test(filePath) ? "jsonc" : "json";
+	}
+
+	/**
+	 * Returns the cipher for the given encryption key, creating it if the key changed.
+	 *
+	 * @param {string | Buffer} key - The encryption key.
+	 * @returns {Cipher} The cipher.
+	 */
+	private getCipher(key: string | Buffer): Cipher {
+		if (this.cipher?.key !== key) this.cipher = { key, instance: new Cipher(key) };
+
+		return this.cipher.instance;
+	}
+
+	/**
+	 * Returns a copy of the cached key values if the cache is enabled
+	 * and the file has not changed since it was filled.
+	 *
+	 * @param {fs.Stats} stats - The current stats of the keyvalues file.
+	 * @returns {T | undefined} The cached key values, or `undefined` on a cache miss.
+	 */
+	private getCached<T extends ValueType>(stats?: fs.Stats): T | undefined {
+		const cache = this.cache;
+		if (!this.options.cache || !cache || !stats) return undefined;
+		if (cache.mtimeMs !== stats.mtimeMs || cache.size !== stats.size) return undefined;
+
+		return _cloneDeep(cache.data) as T;
+	}
+
+	/**
+	 * Stores a copy of the key values in the cache, if the cache is enabled.
+	 *
+	 * @param {T} obj - The key values to cache.
+	 * @param {fs.Stats} stats - The stats of the keyvalues file holding `obj`.
+	 */
+	private setCached<T>(obj: T, stats?: fs.Stats): void {
+		if (!this.options.cache || !stats) return;
+
+		this.cache = { mtimeMs: stats.mtimeMs, size: stats.size, data: _cloneDeep(obj) as ValueType };
 	}
 }
@@ -0,0 +1,133 @@
+import { cloneDeep as _cloneDeep, get as _get, has as _has, omit as _omit, set as _set, unset as _unset } from "lodash";
+
+import type { Migration, MigrationContext, ValueType } from "@/core/types/types";
+import { INTERNAL_KEY } from "./constants";
+
+/**
+ * The key path of the store version marker.
+ * @internal
+ */
+const VERSION_KEY_PATH = [INTERNAL_KEY, "version"];
+
+/**
+ * Compares two version strings segment by segment, numerically when both segments are numbers.
+ *
+ * @param {string} a - The first version.
+ * @param {string} b - The second version.
+ * @returns {number} A negative number if `a` is lower than `b`, a positive number if greater, else `0`.
+ * @internal
+ * @ignore
+ */
+export function compareVersions(a: string, b: string): number {
+	const left = a.split(".");
+	const right = b.split(".");
+
+	for (let i = 0; i < Math.max(left.length, right.length); i++) {
+		const x = left[i] ?? "0";
+		const y = right[i] ?? "0";
+		const diff = /^\d+$/.test(x) && /^\d+$/.test(y) ? Number(x) - Number(y) : x.localeCompare(y);
+
+		if (diff !== 0) return diff;
+	}
+	return 0;
+}
+
+/**
+ * This module provides a helper class for running versioned data migrations.
+ * Pending migrations run in ascending version order on a copy of the key values,
+ * so a failing migration leaves the original key values untouched.
+ *
+ * @module Migrator
+ * @author Heliomar Marques
+ * @internal
+ * @ignore
+ */
+export class Migrator {
+	/**
+	 * The migration versions, in ascending order.
+	 * @private
+	 */
+	private versions: string[];
+
+	/**
+	 * The migrations, keyed by version.
+	 * @private
+	 */
+	private migrations: Record<string, Migration>;
+
+	/**
+	 * Creates an instance of Migrator.
+	 *
+	 * @param {Record<string, Migration>} migrations - The migrations, keyed by the version they upgrade to.
+	 */
+	constructor(migrations: Record<string, Migration>) {
+		this.migrations = migrations;
+		this.versions = Object.keys(migrations).sort(compareVersions);
+	}
+
+	/**
+	 * Returns the version stored in the key values, if any.
+	 *
+	 * @param {ValueType} obj - The stored key values.
+	 * @returns {string | undefined} The stored version.
+	 */
+	static getVersion(obj: ValueType): string | undefined {
+		return _get(obj, VERSION_KEY_PATH);
+	}
+
+	/**
+	 * Copies the version stored in one key values into another.
+	 *
+	 * @param {ValueType} from - The key values holding the version.
+	 * @param {T} to - The key values to copy the version into. It is not modified.
+	 * @returns {T} `to` itself if there is no version to copy, else a shallow copy holding the version.
+	 */
+	static keepVersion<T>(from: ValueType, to: T): T {
+		const version = Migrator.getVersion(from);
+		if (version === undefined) return to;
+
+		return { ...to, [INTERNAL_KEY]: { version } };
+	}
+
+	/**
+	 * Runs every migration newer than the stored version on a copy of the key values.
+	 *
+	 * @param {ValueType} obj - The stored key values.
+	 * @returns {ValueType | undefined} The migrated key values, or `undefined` if nothing was pending.
+	 * @throws {Error} If a migration throws or returns a promise.
+	 */
+	run(obj: ValueType): ValueType | undefined {
+		const fromVersion = Migrator.getVersion(obj);
+		const pending = this.versions.filter((version) => fromVersion === undefined || compareVersions(version, fromVersion) > 0);
+
+		if (pending.length === 0) return undefined;
+
+		const working = _cloneDeep(obj) as object;
+
+		for (const toVersion of pending) {
+			const context: MigrationContext = {
+				fromVersion,
+				toVersion,
+				get: (keyPath) => (keyPath ? _get(working, keyPath) : _omit(working, INTERNAL_KEY)),
+				set: (keyPath, value) => {
+					_set(working, keyPath, value);
+				},
+				has: (keyPath) => _has(working, keyPath),
+				unset: (keyPath) => {
+					_unset(working, keyPath);
+				},
+			};
+
+			try {
+				const result: unknown = this.migrations[toVersion](context);
+				if (result instanceof Promise) throw new Error("migrations must be synchronous");
+			} catch (error) {
+				const message = error instanceof Error ? error.message : "Unknown error";
+				throw new Error(`Failed to run migration ${toVersion}: ${message}`);
+			}
+		}
+
+		_set(working, VERSION_KEY_PATH, pending[pending.length - 1]);
+		return working;
+	}
+}
@@ -0,0 +1,58 @@
+import Ajv, { type ErrorObject, type SchemaObject, type ValidateFunction } from "ajv";
+
+/**
+ * This module provides a helper class for validating the key values against a JSON Schema.
+ * The schema is compiled once, and every failing key path is reported in the thrown error.
+ *
+ * @module SchemaValidator
+ * @author Heliomar Marques
+ * @internal
+ * @ignore
+ */
+export class SchemaValidator {
+	/**
+	 * The compiled schema.
+	 * @private
+	 */
+	private validateFn: ValidateFunction;
+
+	/**
+	 * Creates an instance of SchemaValidator.
+	 *
+	 * @param {SchemaObject} schema - The JSON Schema the whole key values must match.
+	 */
+	constructor(schema: SchemaObject) {
+		this.validateFn = new Ajv({ allErrors: true }).compile(schema);
+	}
+
+	/**
+	 * Validates the key values against the schema.
+	 *
+	 * @param {unknown} obj - The key values to validate.
+	 * @returns {void}
+	 * @throws {Error} If the key values don't match the schema, listing every failing key path.
+	 */
+	validate(obj: unknown): void {
+		if (this.validateFn(obj)) return;
+
+		const details = (this.validateFn.errors ?? []).map((error) => `${this.formatKeyPath(error)} ${error.message}`);
+		throw new Error(`Invalid key values: ${details.join("; ")}`);
+	}
+
+	/**
+	 * Converts the JSON Pointer of a validation error to a key path in dot notation.
+	 *
+	 * @param {ErrorObject} error - The validation error.
+	 * @returns {string} The failing key path, or `(root)` for the key values themselves.
+	 */
+	private formatKeyPath(error: ErrorObject): string {
+		const segments = error.instancePath
+			.split("/")
+			.slice(1)
+			.map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"));
+
+		if (error.keyword === "required") segments.push(error.params.missingProperty);
+
+		return segments.length ? segments.join(".") : "(root)";
+	}
+}
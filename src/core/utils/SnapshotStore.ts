@@ -0,0 +1,150 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import type { Options, SnapshotInfo, ValueType } from "@/core/types/types";
+import { JsonFileHelper } from "./JsonFileHelper";
+
+/**
+ * This module provides a helper class for storing named snapshots of the key values.
+ *
+ * Snapshots are kept in a `<file>.snapshots` directory next to the keyvalues file,
+ * one file per snapshot, written in the same format and with the same encryption
+ * as the keyvalues file. The modification time of a snapshot file is its creation time.
+ *
+ * @module SnapshotStore
+ * @author Heliomar Marques
+ * @internal
+ * @ignore
+ */
+export class SnapshotStore {
+	/**
+	 * The path to the snapshots directory.
+	 */
+	readonly dirPath: string;
+
+	/**
+	 * The extension of the keyvalues file, shared by the snapshot files.
+	 * @private
+	 */
+	private extension: string;
+
+	/**
+	 * The options of the keyvalues file.
+	 * @private
+	 */
+	private options: Options;
+
+	/**
+	 * Creates an instance of SnapshotStore.
+	 *
+	 * @param {string} filePath - The path to the keyvalues file.
+	 * @param {@link Options} options - The options of the keyvalues file.
+	 */
+	constructor(filePath: string, options: Options) {
+		this.dirPath = `${filePath}.snapshots`;
+		this.extension = path.extname(filePath);
+		this.options = options;
+	}
+
+	/**
+	 * Saves a snapshot, replacing any snapshot with the same name.
+	 *
+	 * @param {string} name - The name of the snapshot.
+	 * @param {ValueType} obj - The key values to save.
+	 * @returns {Promise<void>} A promise that resolves when the snapshot has been saved.
+	 * @throws {Error} If the name is not valid.
+	 */
+	async save(name: string, obj: ValueType): Promise<void> {
+		await this.getHelper(name).saveKeyValues(obj);
+	}
+
+	/**
+	 * Loads a snapshot.
+	 *
+	 * @param {string} name - The name of the snapshot.
+	 * @returns {Promise<T>} A promise that resolves with the key values of the snapshot.
+	 * @throws {Error} If the name is not valid or the snapshot does not exist.
+	 */
+	async load<T extends ValueType>(name: string): Promise<T> {
+		const helper = this.getHelper(name);
+		if (!(await helper.exists())) throw new Error(`Failed to restore snapshot: "${name}" does not exist`);
+
+		return helper.loadKeyValues<T>();
+	}
+
+	/**
+	 * Lists the snapshots, from the oldest to the newest.
+	 *
+	 * @returns {Promise<SnapshotInfo[]>} A promise that resolves with the snapshots.
+	 */
+	async list(): Promise<SnapshotInfo[]> {
+		let fileNames: string[];
+
+		try {
+			fileNames = await fs.promises.readdir(this.dirPath);
+		} catch (error) {
+			const ex = error as NodeJS.ErrnoException;
+			if (ex?.code === "ENOENT") return [];
+			throw error;
+		}
+
+		const snapshots: SnapshotInfo[] = [];
+		for (const fileName of fileNames) {
+			if (!fileName.endsWith(this.extension)) continue;
+
+			const stats = await fs.promises.stat(path.join(this.dirPath, fileName));
+			if (stats.isFile()) snapshots.push({ name: fileName.slice(0, fileName.length - this.extension.length), createdAt: stats.mtime });
+		}
+
+		return snapshots.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.name.localeCompare(b.name));
+	}
+
+	/**
+	 * Re-encrypts the snapshots with the current `encryptionKey` option, keeping their creation time.
+	 * Snapshots that can't be read with the previous key are kept as they are.
+	 *
+	 * @param {string | Buffer} previousKey - The key the snapshots are encrypted with, or `undefined` if they are not encrypted.
+	 * @returns {Promise<void>} A promise that resolves when the snapshots have been re-encrypted.
+	 */
+	async reencrypt(previousKey?: string | Buffer): Promise<void> {
+		for (const { name } of await this.list()) {
+			await this.getHelper(name).reencrypt(previousKey);
+		}
+	}
+
+	/**
+	 * Deletes a snapshot.
+	 *
+	 * @param {string} name - The name of the snapshot.
+	 * @returns {Promise<boolean>} A promise that resolves with `true` if the snapshot existed, else `false`.
+	 * @throws {Error} If the name is not valid.
+	 */
+	async delete(name: string): Promise<boolean> {
+		const helper = this.getHelper(name);
+		if (!(await helper.exists())) return false;
+
+		await helper.delete();
+		return true;
+	}
+
+	/**
+	 * Returns a helper reading and writing the file of a snapshot
+	 * with the format and encryption of the keyvalues file.
+	 *
+	 * @param {string} name - The name of the snapshot.
+	 * @returns {JsonFileHelper} The helper.
+	 * @throws {Error} If the name is not valid.
+	 */
+	private getHelper(name: string): JsonFileHelper {
+		if (!/^[\w-][\w.-]*$/.test(name)) throw new Error(`Invalid snapshot name: "${name}"`);
+
+		return new JsonFileHelper({
+			...this.options,
+			dir: this.dirPath,
+			fileName: `${name}${this.extension}`,
+			cache: false,
+			backups: 0,
+			onCorrupt: "throw",
+		});
+	}
+}
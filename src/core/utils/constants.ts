@@ -1,5 +1,7 @@
 const DEFAULT_DIR_NAME = "localdb";
 const DEFAULT_FILE_NAME = "keyvalues.json";
+const INTERNAL_KEY = "__internal__";
+const TYPE_KEY = "__type__";
 
 export {
 	/**
@@ -14,4 +16,16 @@ export {
 	 * @constant
 	 */
 	DEFAULT_FILE_NAME,
+	/**
+	 * Reserved key holding the store metadata inside the data file
+	 * @category Constants
+	 * @constant
+	 */
+	INTERNAL_KEY,
+	/**
+	 * Reserved key holding the type name of a tagged value when the `richTypes` option is enabled
+	 * @category Constants
+	 * @constant
+	 */
+	TYPE_KEY,
 };
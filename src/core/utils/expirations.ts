@@ -0,0 +1,113 @@
+import { get as _get, isEmpty as _isEmpty, set as _set, toPath as _toPath, unset as _unset } from "lodash";
+
+import type { KeyPath, ValueType } from "@/core/types/types";
+import { INTERNAL_KEY } from "./constants";
+
+/**
+ * The key path of the expirations in the stored key values.
+ * @internal
+ */
+const EXPIRATIONS_KEY_PATH = [INTERNAL_KEY, "expirations"];
+
+/**
+ * The time after which the value at a key path expires.
+ * @internal
+ */
+type Expiration = { keyPath: string[]; expiresAt: number };
+
+/**
+ * Returns the expirations stored in the key values.
+ *
+ * @param {ValueType} obj - The stored key values.
+ * @returns {Expiration[]} The expirations, empty if there are none.
+ */
+function getExpirations(obj: ValueType): Expiration[] {
+	const expirations = _get(obj, EXPIRATIONS_KEY_PATH);
+	return Array.isArray(expirations) ? expirations : [];
+}
+
+/**
+ * Stores the expirations in the key values, removing the metadata key once it is empty.
+ *
+ * @param {ValueType} obj - The stored key values, modified in place.
+ * @param {Expiration[]} expirations - The expirations to store.
+ */
+function setExpirations(obj: ValueType, expirations: Expiration[]): void {
+	if (expirations.length) {
+		_set(obj as object, EXPIRATIONS_KEY_PATH, expirations);
+		return;
+	}
+
+	_unset(obj, EXPIRATIONS_KEY_PATH);
+	if (_isEmpty(_get(obj, INTERNAL_KEY))) _unset(obj, INTERNAL_KEY);
+}
+
+/**
+ * Checks whether a key path is the given parent key path or below it.
+ *
+ * @param {string[]} keyPath - The key path to check.
+ * @param {string[]} parent - The parent key path.
+ * @returns {boolean} `true` if `keyPath` starts with every segment of `parent`, else `false`.
+ */
+function isWithin(keyPath: string[], parent: string[]): boolean {
+	return parent.length <= keyPath.length && parent.every((segment, i) => keyPath[i] === segment);
+}
+
+/**
+ * Replaces the expirations of a key path, and of the key paths below it, with a new time to live.
+ *
+ * @param {ValueType} obj - The stored key values, modified in place.
+ * @param {KeyPath} keyPath - The key path of the value.
+ * @param {number} ttl - The time to live of the value, in milliseconds, or `undefined` for a value that never expires.
+ * @returns {void}
+ * @throws {Error} If `ttl` is not a positive number.
+ * @internal
+ * @ignore
+ */
+export function setExpiration(obj: ValueType, keyPath: KeyPath, ttl?: number): void {
+	if (ttl !== undefined && !(Number.isFinite(ttl) && ttl > 0)) {
+		throw new Error(`Invalid ttl: ${ttl} is not a positive number of milliseconds`);
+	}
+
+	const path = _toPath(keyPath);
+	const expirations = getExpirations(obj).filter((expiration) => !isWithin(expiration.keyPath, path));
+
+	if (ttl !== undefined) expirations.push({ keyPath: path, expiresAt: Date.now() + ttl });
+	setExpirations(obj, expirations);
+}
+
+/**
+ * Checks whether any value of the key values has expired.
+ *
+ * @param {ValueType} obj - The stored key values.
+ * @param {number} now - The current time.
+ * @returns {boolean} `true` if a value has expired, else `false`.
+ * @internal
+ * @ignore
+ */
+export function hasExpiredKeys(obj: ValueType, now = Date.now()): boolean {
+	return getExpirations(obj).some((expiration) => expiration.expiresAt <= now);
+}
+
+/**
+ * Removes the expired values, and their expirations, from the key values.
+ *
+ * @param {ValueType} obj - The stored key values, modified in place.
+ * @param {number} now - The current time.
+ * @returns {string[][]} The key paths of the removed values.
+ * @internal
+ * @ignore
+ */
+export function removeExpiredKeys(obj: ValueType, now = Date.now()): string[][] {
+	const expirations = getExpirations(obj);
+	const expired = expirations.filter((expiration) => expiration.expiresAt <= now).map((expiration) => expiration.keyPath);
+	if (expired.length === 0) return [];
+
+	for (const keyPath of expired) _unset(obj, keyPath);
+	setExpirations(
+		obj,
+		expirations.filter((expiration) => !expired.some((keyPath) => isWithin(expiration.keyPath, keyPath)))
+	);
+
+	return expired;
+}
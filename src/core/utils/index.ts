@@ -1,2 +1,15 @@
+export * from "./ChangeEmitter";
+export * from "./Cipher";
 export * from "./constants";
+export * from "./expirations";
+export * from "./FileLock";
+export * from "./FileWatcher";
 export * from "./JsonFileHelper";
+export * from "./jsonc";
+export * from "./Migrator";
+export * from "./operations";
+export * from "./query";
+export * from "./richTypes";
+export * from "./SchemaValidator";
+export * from "./SnapshotStore";
+export * from "./writeQueue";
@@ -0,0 +1,260 @@
+import { applyEdits, type Edit, type FormattingOptions, format, modify, type ParseError, parse, printParseErrorCode } from "jsonc-parser";
+import { isEqual as _isEqual, isPlainObject as _isPlainObject } from "lodash";
+
+/**
+ * The options used to parse JSONC content.
+ * @internal
+ */
+const parseOptions = { allowTrailingComma: true, disallowComments: false };
+
+/**
+ * The tokens of JSON5 content that are not plain JSONC: strings, bare identifiers and numbers.
+ * Comments are matched too, so the tokens inside them are skipped.
+ * @internal
+ */
+const json5Token =
+	/\/\/[^\n\r]*|\/\*[\s\S]*?(?:\*\/|$)|"(?:[^"\\\n\r]|\\[\s\S])*"?|'(?:[^'\\\n\r]|\\[\s\S])*'?|[+-]?(?:0[xX][\da-fA-F]+|Infinity|NaN|\d+\.?\d*(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?)|[A-Za-z_$\u0080-\uffff][\w$\u0080-\uffff]*/g;
+
+/**
+ * The escape sequences of JSON5 strings that are written as a single character.
+ * @internal
+ */
+const json5Escapes: Record<string, string> = { b: "\b", f: "\f", n: "\n", r: "\r", t: "\t", v: "\v", "0": "\0" };
+
+/**
+ * A part of JSON5 content rewritten as JSONC, located by its offsets in the JSON5 content.
+ * @internal
+ */
+type Replacement = { offset: number; length: number; content: string };
+
+/**
+ * JSON5 content rewritten as JSONC, with the parts that were rewritten.
+ * @internal
+ */
+type Normalized = { text: string; replacements: Replacement[] };
+
+/**
+ * Parses JSONC content, allowing comments and trailing commas, as well as the rest
+ * of the JSON5 syntax: unquoted keys, single-quoted strings, hexadecimal numbers,
+ * leading, trailing or explicitly signed decimal points, `Infinity` and `NaN`.
+ * `NaN` is read as `null`, the value JSON writes for it.
+ *
+ * @param {string} content - The JSONC content.
+ * @returns {T} The parsed key values.
+ * @throws {Error} If the content is not valid JSONC, with the line of the first error.
+ * @internal
+ * @ignore
+ */
+export function parseJsonc<T>(content: string): T {
+	const errors: ParseError[] = [];
+	const { text, replacements } = normalize(content);
+	const obj = parse(text, errors, parseOptions);
+
+	if (errors.length) {
+		const [{ error, offset }] = errors;
+		const line = content.slice(0, toContentOffset(replacements, offset)).split("\n").length;
+		throw new Error(`Failed to parse key values: ${printParseErrorCode(error)} at line ${line}`);
+	}
+	return obj as T;
+}
+
+/**
+ * Rewrites JSONC content so it holds the given key values, editing only the key paths
+ * whose values changed. Comments, formatting and key order of untouched keys are kept,
+ * and new keys are appended to their parent object, indented like the existing content.
+ * The JSON5 syntax of untouched keys is kept as well; edited values are written as JSON.
+ *
+ * @param {string} content - The current JSONC content.
+ * @param {unknown} obj - The key values the content must hold.
+ * @param {number} tabSize - The number of spaces to indent inserted values by, if the content is not indented yet.
+ * @returns {string | undefined} The updated content, or `undefined` if the current content is not valid JSONC.
+ * @internal
+ * @ignore
+ */
+export function updateJsonc(content: string, obj: unknown, tabSize: number): string | undefined {
+	const errors: ParseError[] = [];
+	const previous: unknown = parse(normalize(content).text, errors, parseOptions);
+	if (errors.length || previous === undefined) return undefined;
+
+	const eol = content.includes("\r\n") ? "\r\n" : "\n";
+	const indentation = /^([ \t]+)\S/m.exec(content)?.[1];
+	const formattingOptions: FormattingOptions = indentation?.startsWith("\t")
+		? { insertSpaces: false, tabSize, eol }
+		: { insertSpaces: true, tabSize: indentation?.length ?? tabSize, eol };
+
+	return patch(content, [], previous, obj, formattingOptions);
+}
+
+/**
+ * Edits the value at a path of JSONC content, descending into objects
+ * so only the changed key paths are rewritten.
+ *
+ * @param {string} content - The JSONC content.
+ * @param {string[]} path - The path of the value to edit.
+ * @param {unknown} oldValue - The value currently at the path.
+ * @param {unknown} newValue - The value the path must hold.
+ * @param {FormattingOptions} formattingOptions - How to format the inserted values.
+ * @returns {string} The edited content.
+ */
+function patch(content: string, path: string[], oldValue: unknown, newValue: unknown, formattingOptions: FormattingOptions): string {
+	if (!_isPlainObject(oldValue) || !_isPlainObject(newValue)) {
+		return edit(content, path, newValue, formattingOptions);
+	}
+
+	const oldObj = oldValue as Record<string, unknown>;
+	const newObj = newValue as Record<string, unknown>;
+	let result = content;
+
+	for (const key of Object.keys(oldObj)) {
+		if (!(key in newObj)) result = edit(result, [...path, key], undefined, formattingOptions);
+	}
+	for (const key of Object.keys(newObj)) {
+		if (!_isEqual(oldObj[key], newObj[key])) result = patch(result, [...path, key], oldObj[key], newObj[key], formattingOptions);
+	}
+	return result;
+}
+
+/**
+ * Sets or removes the value at a path of JSONC content. Only the written value and
+ * the whitespace around it are formatted, so the siblings of an inserted key keep their layout.
+ *
+ * @param {string} content - The JSONC content.
+ * @param {string[]} path - The path of the value to edit.
+ * @param {unknown} value - The value the path must hold, or `undefined` to remove it.
+ * @param {FormattingOptions} formattingOptions - How to format the written value.
+ * @returns {string} The edited content.
+ */
+function edit(content: string, path: string[], value: unknown, formattingOptions: FormattingOptions): string {
+	const { text, replacements } = normalize(content);
+	const [change] = modify(text, path, value, {});
+	if (!change) return content;
+
+	const formatted = formatEdit(text, change, formattingOptions);
+	const start = toContentOffset(replacements, formatted.offset);
+	const end = toContentOffset(replacements, formatted.offset + formatted.length);
+
+	return applyEdits(content, [{ offset: start, length: end - start, content: formatted.content }]);
+}
+
+/**
+ * Formats the content written by an edit and the whitespace around it,
+ * returning a single edit of the original content that includes the formatting.
+ *
+ * @param {string} text - The JSONC content.
+ * @param {Edit} change - The edit to format.
+ * @param {FormattingOptions} formattingOptions - How to format the written content.
+ * @returns {Edit} The formatted edit.
+ */
+function formatEdit(text: string, change: Edit, formattingOptions: FormattingOptions): Edit {
+	if (!change.content) return change;
+
+	const edited = applyEdits(text, [change]);
+	const inserted = change.length === 0;
+	const range = inserted ? { offset: Math.max(change.offset - 1, 0), length: change.content.length + 2 } : { offset: change.offset, length: change.content.length };
+	const formatting = format(edited, range, formattingOptions);
+
+	const start = Math.min(change.offset, ...formatting.map(({ offset }) => offset));
+	const end = Math.max(change.offset + change.content.length, ...formatting.map(({ offset, length }) => offset + length));
+	const growth = formatting.reduce((total, { length, content }) => total + content.length - length, 0);
+
+	return {
+		offset: start,
+		length: end - change.content.length + change.length - start,
+		content: applyEdits(edited, formatting).slice(start, end + growth),
+	};
+}
+
+/**
+ * Rewrites the JSON5 syntax of the content as JSONC, keeping comments,
+ * whitespace and every token that is already valid JSONC.
+ *
+ * @param {string} content - The JSON5 content.
+ * @returns {Normalized} The JSONC content, with the parts that were rewritten.
+ */
+function normalize(content: string): Normalized {
+	const replacements: Replacement[] = [];
+
+	for (const match of content.matchAll(json5Token)) {
+		const [token] = match;
+		const replacement = normalizeToken(token);
+		if (replacement !== token) replacements.push({ offset: match.index ?? 0, length: token.length, content: replacement });
+	}
+	return { text: replacements.length ? applyEdits(content, replacements) : content, replacements };
+}
+
+/**
+ * Rewrites a single JSON5 token as JSONC. Unterminated strings are kept as
+ * they are, so the parser reports them.
+ *
+ * @param {string} token - The token.
+ * @returns {string} The JSONC token.
+ */
+function normalizeToken(token: string): string {
+	const [first] = token;
+
+	if (first === "/") return token;
+	if (first === '"' || first === "'") {
+		if (token.length < 2 || !token.endsWith(first)) return token;
+		if (first === '"' && isJson(token)) return token;
+		return JSON.stringify(unescapeJson5(token.slice(1, -1)));
+	}
+	if (/^(true|false|null)$/.test(token)) return token;
+	if (!/^(Infinity|NaN)$/.test(token) && /^[A-Za-z_$\u0080-\uffff]/.test(token)) return JSON.stringify(token);
+
+	if (isJson(token)) return token;
+
+	const negative = token.startsWith("-");
+	const number = Number(token.replace(/^[+-]/, ""));
+	if (Number.isNaN(number)) return "null";
+	if (!Number.isFinite(number)) return negative ? "-1e999" : "1e999";
+	return String(negative ? -number : number);
+}
+
+/**
+ * Resolves the escape sequences of the body of a JSON5 string.
+ *
+ * @param {string} body - The string without its quotes.
+ * @returns {string} The string value.
+ */
+function unescapeJson5(body: string): string {
+	return body.replace(/\\(x[\da-fA-F]{2}|u[\da-fA-F]{4}|\r\n|[\s\S])/g, (_match, sequence: string) => {
+		if (/^[xu]/.test(sequence) && sequence.length > 1) return String.fromCharCode(Number.parseInt(sequence.slice(1), 16));
+		if (/^(\r\n|[\n\r\u2028\u2029])$/.test(sequence)) return "";
+		return json5Escapes[sequence] ?? sequence;
+	});
+}
+
+/**
+ * Checks whether a token is valid JSON as it is.
+ *
+ * @param {string} token - The token.
+ * @returns {boolean} `true` if the token is valid JSON, else `false`.
+ */
+function isJson(token: string): boolean {
+	try {
+		JSON.parse(token);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Converts an offset of the JSONC content returned by {@link normalize}
+ * to the matching offset of the JSON5 content.
+ *
+ * @param {Replacement[]} replacements - The parts of the content that were rewritten.
+ * @param {number} offset - The offset in the JSONC content.
+ * @returns {number} The offset in the JSON5 content.
+ */
+function toContentOffset(replacements: Replacement[], offset: number): number {
+	let shift = 0;
+
+	for (const { offset: start, length, content } of replacements) {
+		const textStart = start + shift;
+		if (offset <= textStart) break;
+		if (offset < textStart + content.length) return start;
+		shift += content.length - length;
+	}
+	return offset - shift;
+}
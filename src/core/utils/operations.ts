@@ -0,0 +1,59 @@
+import type { KeyPath, ValueType } from "@/core/types/types";
+import { ValueTypeError } from "../errors";
+
+/**
+ * Returns the current value of a numeric operation, `0` if there is none.
+ *
+ * @param {string} operation - The name of the operation.
+ * @param {KeyPath} keyPath - The key path of the value.
+ * @param {unknown} current - The current value.
+ * @param {number} by - The amount the value is changed by.
+ * @returns {number} The current number.
+ * @throws {Error} If `by` is not a finite number.
+ * @throws {ValueTypeError} If the current value is not a number.
+ * @internal
+ * @ignore
+ */
+export function toNumber(operation: string, keyPath: KeyPath, current: unknown, by: number): number {
+	if (typeof by !== "number" || !Number.isFinite(by)) throw new Error(`Failed to ${operation}: ${by} is not a finite number`);
+	if (current === undefined) return 0;
+	if (typeof current !== "number") throw new ValueTypeError(operation, keyPath, "number", current);
+
+	return current;
+}
+
+/**
+ * Returns the current value of an array operation, an empty array if there is none.
+ *
+ * @param {string} operation - The name of the operation.
+ * @param {KeyPath} keyPath - The key path of the value.
+ * @param {unknown} current - The current value.
+ * @returns {ValueType[]} The current array.
+ * @throws {ValueTypeError} If the current value is not an array.
+ * @internal
+ * @ignore
+ */
+export function toArray(operation: string, keyPath: KeyPath, current: unknown): ValueType[] {
+	if (current === undefined) return [];
+	if (!Array.isArray(current)) throw new ValueTypeError(operation, keyPath, "array", current);
+
+	return current;
+}
+
+/**
+ * Returns the current value of a boolean operation, `false` if there is none.
+ *
+ * @param {string} operation - The name of the operation.
+ * @param {KeyPath} keyPath - The key path of the value.
+ * @param {unknown} current - The current value.
+ * @returns {boolean} The current boolean.
+ * @throws {ValueTypeError} If the current value is not a boolean.
+ * @internal
+ * @ignore
+ */
+export function toBoolean(operation: string, keyPath: KeyPath, current: unknown): boolean {
+	if (current === undefined) return false;
+	if (typeof current !== "boolean") throw new ValueTypeError(operation, keyPath, "boolean", current);
+
+	return current;
+}
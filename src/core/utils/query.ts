@@ -0,0 +1,74 @@
+import { has as _has, isObjectLike as _isObjectLike, toPath as _toPath } from "lodash";
+
+import type { KeyPath } from "@/core/types/types";
+
+/**
+ * Finds the key paths of the values matching a key path pattern, in depth-first order.
+ *
+ * In the pattern, `*` matches any single key and `**` matches any number of keys, including none.
+ * Array items are matched by their index.
+ *
+ * @param {unknown} obj - The key values to search.
+ * @param {KeyPath} pattern - The key path pattern, e.g. `users.*.email` or `plugins.**.enabled`.
+ * @returns {string[][]} The key paths of the matching values, without duplicates.
+ * @internal
+ * @ignore
+ */
+export function findKeyPaths(obj: unknown, pattern: KeyPath): string[][] {
+	const segments = _toPath(pattern);
+	const found = new Map<string, string[]>();
+
+	const visit = (value: unknown, index: number, keyPath: string[]): void => {
+		if (index === segments.length) {
+			if (keyPath.length) found.set(JSON.stringify(keyPath), keyPath);
+			return;
+		}
+		if (!_isObjectLike(value)) {
+			if (segments[index] === "**") visit(value, index + 1, keyPath);
+			return;
+		}
+
+		const segment = segments[index];
+		const children = value as Record<string, unknown>;
+
+		if (segment === "**") {
+			visit(value, index + 1, keyPath);
+			for (const key of Object.keys(children)) visit(children[key], index, [...keyPath, key]);
+		} else if (segment === "*") {
+			for (const key of Object.keys(children)) visit(children[key], index + 1, [...keyPath, key]);
+		} else if (_has(children, [segment])) {
+			visit(children[segment], index + 1, [...keyPath, segment]);
+		}
+	};
+
+	visit(obj, 0, []);
+	return [...found.values()];
+}
+
+/**
+ * Lists the entries of an object or array, in depth-first order: the keys of its properties,
+ * or with `recursive`, the key paths of its leaf values. Empty objects and arrays are leaf values,
+ * and any other value has no entries.
+ *
+ * @param {unknown} value - The object or array.
+ * @param {boolean} recursive - Whether to list the leaf values instead of the properties.
+ * @returns {Array<[string[], unknown]>} The key paths, relative to `value`, and their values.
+ * @internal
+ * @ignore
+ */
+export function listEntries(value: unknown, recursive = false): Array<[string[], unknown]> {
+	const entries: Array<[string[], unknown]> = [];
+	const visit = (current: unknown, keyPath: string[]): void => {
+		const children = _isObjectLike(current) ? (current as Record<string, unknown>) : {};
+		const keys = Object.keys(children);
+
+		if (keyPath.length && !(recursive && keys.length)) {
+			entries.push([keyPath, current]);
+			return;
+		}
+		for (const key of keys) visit(children[key], [...keyPath, key]);
+	};
+
+	visit(value, []);
+	return entries;
+}
@@ -0,0 +1,93 @@
+import { has as _has, isObjectLike as _isObjectLike, isPlainObject as _isPlainObject, mapValues as _mapValues } from "lodash";
+
+import type { Serializer } from "@/core/types/types";
+import { TYPE_KEY } from "./constants";
+
+/**
+ * The key holding the encoded value of a tagged value.
+ * @internal
+ */
+const VALUE_KEY = "value";
+
+/**
+ * Wraps an encoded value in a tagged object.
+ *
+ * @param {string} type - The type name.
+ * @param {unknown} value - The encoded value.
+ * @returns {Record<string, unknown>} The tagged object.
+ */
+function tag(type: string, value: unknown): Record<string, unknown> {
+	return { [TYPE_KEY]: type, [VALUE_KEY]: value };
+}
+
+/**
+ * Replaces the `Date`, `Map`, `Set`, `BigInt` and `Buffer` values, and the instances of the classes
+ * with a serializer, by tagged objects that can be written as JSON or YAML.
+ * Plain objects that own the type key are tagged as well, so they are not mistaken for tagged values.
+ *
+ * @param {unknown} value - The value to encode.
+ * @param {Record<string, Serializer>} serializers - The serializers of user-defined classes, keyed by type name.
+ * @returns {unknown} A copy of the value holding tagged objects instead of the rich types.
+ * @internal
+ * @ignore
+ */
+export function encodeRichTypes(value: unknown, serializers: Record<string, Serializer> = {}): unknown {
+	const encode = (item: unknown): unknown => encodeRichTypes(item, serializers);
+
+	if (typeof value === "bigint") return tag("BigInt", value.toString());
+	if (!_isObjectLike(value)) return value;
+
+	for (const [type, serializer] of Object.entries(serializers)) {
+		if (value instanceof serializer.type) return tag(type, encode(serializer.serialize(value)));
+	}
+
+	if (Buffer.isBuffer(value)) return tag("Buffer", value.toString("base64"));
+	if (value instanceof Date) return tag("Date", value.toJSON());
+	if (value instanceof Map) return tag("Map", encode(Array.from(value.entries())));
+	if (value instanceof Set) return tag("Set", Array.from(value, encode));
+	if (Array.isArray(value)) return value.map(encode);
+
+	const obj = _mapValues(value as Record<string, unknown>, encode);
+	return _has(value, [TYPE_KEY]) ? tag("Object", obj) : obj;
+}
+
+/**
+ * Restores the values encoded by {@link encodeRichTypes}.
+ * Tagged objects of an unknown type are kept as they are.
+ *
+ * @param {unknown} value - The value to decode.
+ * @param {Record<string, Serializer>} serializers - The serializers of user-defined classes, keyed by type name.
+ * @returns {unknown} A copy of the value holding the rich types instead of tagged objects.
+ * @internal
+ * @ignore
+ */
+export function decodeRichTypes(value: unknown, serializers: Record<string, Serializer> = {}): unknown {
+	const decode = (item: unknown): unknown => decodeRichTypes(item, serializers);
+
+	if (Array.isArray(value)) return value.map(decode);
+	if (!_isPlainObject(value)) return value;
+
+	const obj = value as Record<string, unknown>;
+	const type = obj[TYPE_KEY];
+	if (typeof type !== "string" || !_has(obj, [VALUE_KEY]) || Object.keys(obj).length !== 2) return _mapValues(obj, decode);
+
+	const data = obj[VALUE_KEY];
+	if (_has(serializers, [type])) return serializers[type].deserialize(decode(data) as never);
+
+	switch (type) {
+		case "Object":
+			return _mapValues(data as Record<string, unknown>, decode);
+		case "BigInt":
+			return BigInt(data as string);
+		case "Buffer":
+			return Buffer.from(data as string, "base64");
+		case "Date":
+			return new Date((data as string | null) ?? Number.NaN);
+		case "Map":
+			return new Map((data as Array<[unknown, unknown]>).map(([key, item]) => [decode(key), decode(item)]));
+		case "Set":
+			return new Set((data as unknown[]).map(decode));
+		default:
+			return _mapValues(obj, decode);
+	}
+}
@@ -0,0 +1,77 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import path from "node:path";
+
+/**
+ * The last queued task of each storage, keyed by the resolved file path or the storage adapter.
+ * @internal
+ */
+const tails = new Map<unknown, Promise<unknown>>();
+
+/**
+ * The queue turn of a storage, held while its task runs.
+ * @internal
+ */
+type Turn = { storage: unknown; running: boolean };
+
+/**
+ * The queue turns held by the current async context.
+ * @internal
+ */
+const turns = new AsyncLocalStorage<readonly Turn[]>();
+
+/**
+ * Queues an asynchronous read-modify-write task to run after every task previously
+ * queued for the same storage has settled. Tasks run in the order they were queued,
+ * no matter which KeyValues instance queued them.
+ *
+ * Tasks queued from inside a running task of the same storage run right away,
+ * so nested calls don't wait on themselves. A turn only counts while its task runs:
+ * timers and callbacks created by the task that run after it settles are queued as usual.
+ *
+ * @param {string | object} storage - The path of the file the task reads and writes, or the storage adapter it uses.
+ * @param {() => Promise<T>} task - The task to run.
+ * @returns {Promise<T>} A promise that settles with the result of the task.
+ * @internal
+ * @ignore
+ */
+export function enqueueWrite<T>(storage: string | object, task: () => Promise<T>): Promise<T> {
+	const key = typeof storage === "string" ? path.resolve(storage) : storage;
+	const held = (turns.getStore() ?? []).filter((turn) => turn.running);
+
+	if (held.some((turn) => turn.storage === key)) return task();
+
+	const previous = tails.get(key) ?? Promise.resolve();
+	const turn: Turn = { storage: key, running: true };
+
+	const result = previous
+		.then(() => turns.run([...held, turn], task))
+		.finally(() => {
+			turn.running = false;
+		});
+	const tail = result.then(
+		() => undefined,
+		() => undefined
+	);
+
+	tails.set(key, tail);
+	tail.then(() => {
+		if (tails.get(key) === tail) tails.delete(key);
+	});
+
+	return result;
+}
+
+/**
+ * Runs a function outside of the queue turns held by the current async context,
+ * so the writes it makes, or schedules, are queued like any other.
+ * Use it for the work a task hands over to code it doesn't await, such as
+ * change notifications and timers.
+ *
+ * @param {() => T} fn - The function to run.
+ * @returns {T} The result of the function.
+ * @internal
+ * @ignore
+ */
+export function outsideWriteQueue<T>(fn: () => T): T {
+	return turns.exit(fn);
+}
@@ -1,2 +1,4 @@
+export * from "./core/adapters";
+export * from "./core/errors";
 export * from "./core/keyvalues";
 export * from "./core/types";
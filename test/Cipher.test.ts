@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+
+import { Cipher } from "../src/core/utils";
+
+describe("Cipher", () => {
+	it("should round-trip the content", () => {
+		const cipher = new Cipher("secret");
+		const encrypted = cipher.encrypt('{"token":"abc"}');
+
+		expect(encrypted.toString("utf-8")).not.toContain("token");
+		expect(new Cipher("secret").decrypt(encrypted)).toBe('{"token":"abc"}');
+	});
+
+	it("should use a fresh iv for every encryption", () => {
+		const cipher = new Cipher("secret");
+		expect(cipher.encrypt("{}").equals(cipher.encrypt("{}"))).toBe(false);
+	});
+
+	it("should accept a Buffer key", () => {
+		const key = Buffer.alloc(32, 7);
+		expect(new Cipher(key).decrypt(new Cipher(key).encrypt("{}"))).toBe("{}");
+	});
+
+	it("should fail with a clear error on a wrong key", () => {
+		const encrypted = new Cipher("secret").encrypt("{}");
+		expect(() => new Cipher("other").decrypt(encrypted)).toThrow("wrong encryption key or the file was tampered with");
+	});
+
+	it("should fail with a clear error on tampered content", () => {
+		const encrypted = new Cipher("secret").encrypt('{"a":1}');
+		encrypted[encrypted.length - 1] ^= 1;
+		expect(() => new Cipher("secret").decrypt(encrypted)).toThrow("wrong encryption key or the file was tampered with");
+	});
+
+	it("should fail with a clear error on content that is not encrypted", () => {
+		expect(() => new Cipher("secret").decrypt(Buffer.from('{"a":1}'))).toThrow("the file is not encrypted");
+	});
+});
@@ -0,0 +1,164 @@
+import fs from "node:fs";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { FileLock } from "../src/core/utils";
+
+const TEST_DIR = path.resolve(__dirname, "test-data-lock");
+const FILE_PATH = path.join(TEST_DIR, "keyvalues.json");
+
+describe("FileLock", () => {
+	beforeEach(async () => {
+		await fs.promises.rm(TEST_DIR, { recursive: true, force: true });
+	});
+
+	afterEach(async () => {
+		await fs.promises.rm(TEST_DIR, { recursive: true, force: true });
+	});
+
+	it("should create the lock file next to the protected file", () => {
+		const lock = new FileLock(FILE_PATH);
+		expect(lock.lockPath).toBe(`${FILE_PATH}.lock`);
+	});
+
+	it("should create the lock file on acquire and remove it on release (async)", async () => {
+		const lock = new FileLock(FILE_PATH);
+
+		await lock.acquire();
+		expect(fs.existsSync(lock.lockPath)).toBe(true);
+
+		lock.release();
+		expect(fs.existsSync(lock.lockPath)).toBe(false);
+	});
+
+	it("should create the lock file on acquire and remove it on release (sync)", () => {
+		const lock = new FileLock(FILE_PATH);
+
+		lock.acquireSync();
+		expect(fs.existsSync(lock.lockPath)).toBe(true);
+
+		lock.release();
+		expect(fs.existsSync(lock.lockPath)).toBe(false);
+	});
+
+	it("should be reentrant within the same process", async () => {
+		const lock = new FileLock(FILE_PATH, { timeout: 100 });
+
+		await lock.run(async () => {
+			await lock.run(async () => undefined);
+			lock.runSync(() => undefined);
+			expect(fs.existsSync(lock.lockPath)).toBe(true);
+		});
+
+		expect(fs.existsSync(lock.lockPath)).toBe(false);
+	});
+
+	it("should release the lock when the task throws", async () => {
+		const lock = new FileLock(FILE_PATH);
+
+		await expect(
+			lock.run(async () => {
+				throw new Error("boom");
+			})
+		).rejects.toThrow("boom");
+		expect(() =>
+			lock.runSync(() => {
+				throw new Error("boom");
+			})
+		).toThrow("boom");
+
+		expect(fs.existsSync(lock.lockPath)).toBe(false);
+	});
+
+	it("should time out while another process holds the lock", async () => {
+		const lock = new FileLock(FILE_PATH, { timeout: 100, retryInterval: 10 });
+		await fs.promises.mkdir(TEST_DIR, { recursive: true });
+		await fs.promises.writeFile(lock.lockPath, "{}");
+
+		await expect(lock.acquire()).rejects.toThrow("Failed to acquire lock");
+		expect(() => lock.acquireSync()).toThrow("Failed to acquire lock");
+		expect(fs.existsSync(lock.lockPath)).toBe(true);
+	});
+
+	it("should wait for another process to release the lock", async () => {
+		const lock = new FileLock(FILE_PATH, { timeout: 1000, retryInterval: 10 });
+		await fs.promises.mkdir(TEST_DIR, { recursive: true });
+		await fs.promises.writeFile(lock.lockPath, "{}");
+
+		setTimeout(() => fs.rmSync(lock.lockPath), 50);
+
+		await expect(lock.acquire()).resolves.toBeUndefined();
+		lock.release();
+	});
+
+	it("should remove a stale lock file", async () => {
+		const lock = new FileLock(FILE_PATH, { stale: 1000, timeout: 100 });
+		await fs.promises.mkdir(TEST_DIR, { recursive: true });
+		await fs.promises.writeFile(lock.lockPath, "{}");
+		const past = new Date(Date.now() - 5000);
+		await fs.promises.utimes(lock.lockPath, past, past);
+
+		await expect(lock.acquire()).resolves.toBeUndefined();
+		const content = JSON.parse(await fs.promises.readFile(lock.lockPath, "utf-8"));
+		expect(content.pid).toBe(process.pid);
+		lock.release();
+	});
+
+	it("should take over an abandoned lock file with the default options", async () => {
+		const lock = new FileLock(FILE_PATH);
+		await fs.promises.mkdir(TEST_DIR, { recursive: true });
+		await fs.promises.writeFile(lock.lockPath, JSON.stringify({ token: "other" }));
+
+		vi.useFakeTimers({ toFake: ["Date", "setTimeout"] });
+		try {
+			const acquired = lock.acquire();
+			while (vi.getTimerCount() === 0) {
+				await new Promise((resolve) => setImmediate(resolve));
+			}
+			await vi.advanceTimersByTimeAsync(11000);
+
+			await expect(acquired).resolves.toBeUndefined();
+			expect(JSON.parse(await fs.promises.readFile(lock.lockPath, "utf-8")).token).not.toBe("other");
+		} finally {
+			lock.release();
+			vi.useRealTimers();
+		}
+	});
+
+	it("should take over a stale lock file with a new token", async () => {
+		const lock = new FileLock(FILE_PATH, { stale: 1000, timeout: 100 });
+		await fs.promises.mkdir(TEST_DIR, { recursive: true });
+		await fs.promises.writeFile(lock.lockPath, JSON.stringify({ token: "other" }));
+		const past = new Date(Date.now() - 5000);
+		await fs.promises.utimes(lock.lockPath, past, past);
+
+		await lock.acquire();
+		const content = JSON.parse(await fs.promises.readFile(lock.lockPath, "utf-8"));
+		expect(content.token).not.toBe("other");
+		expect(await fs.promises.readdir(TEST_DIR)).toEqual(["keyvalues.json.lock"]);
+		lock.release();
+	});
+
+	it("should not remove a lock file taken over by another process", async () => {
+		const lock = new FileLock(FILE_PATH);
+		await lock.acquire();
+
+		await fs.promises.writeFile(lock.lockPath, JSON.stringify({ token: "other" }));
+		lock.release();
+
+		expect(JSON.parse(await fs.promises.readFile(lock.lockPath, "utf-8")).token).toBe("other");
+	});
+
+	it("should refresh the lock file while it is held", async () => {
+		const lock = new FileLock(FILE_PATH, { stale: 100 });
+
+		await lock.run(async () => {
+			const past = new Date(Date.now() - 5000);
+			await fs.promises.utimes(lock.lockPath, past, past);
+			await new Promise((resolve) => setTimeout(resolve, 120));
+
+			const { mtimeMs } = await fs.promises.stat(lock.lockPath);
+			expect(Date.now() - mtimeMs).toBeLessThan(100);
+		});
+	});
+});
@@ -178,6 +178,86 @@ describe("JsonFileHelper", () => {
 		});
 	});
 
+	describe("Storage Adapter", () => {
+		it("should load and save through the adapter methods", async () => {
+			const helper = new JsonFileHelper({ dir: TEST_DIR, fileName: "adapter.json", atomicSave: false, prettify: false, numSpaces: 2 });
+
+			await helper.save({ a: 1 });
+			expect(await helper.load()).toEqual({ a: 1 });
+
+			helper.saveSync({ b: 2 });
+			expect(helper.loadSync()).toEqual({ b: 2 });
+		});
+
+		it("should check if the file exists and delete it", async () => {
+			const helper = new JsonFileHelper({ dir: TEST_DIR, fileName: "adapter-delete.json", atomicSave: false, prettify: false, numSpaces: 2 });
+			expect(await helper.exists()).toBe(false);
+
+			helper.saveSync({ a: 1 });
+			expect(await helper.exists()).toBe(true);
+			expect(helper.existsSync()).toBe(true);
+
+			await helper.delete();
+			expect(helper.existsSync()).toBe(false);
+
+			helper.saveSync({ a: 1 });
+			helper.deleteSync();
+			expect(helper.existsSync()).toBe(false);
+			await expect(helper.delete()).resolves.toBeUndefined();
+		});
+	});
+
+	describe("Caching", () => {
+		it("should reuse the parsed data while the file is unchanged", async () => {
+			const helper = new JsonFileHelper({ dir: TEST_DIR, fileName: "cache.json", atomicSave: false, prettify: false, numSpaces: 2, cache: true });
+			await fs.promises.writeFile(helper.getJsonFilePath(), JSON.stringify({ a: 1 }));
+			const readSpy = vi.spyOn(fs.promises, "readFile");
+
+			expect(await helper.loadKeyValues()).toEqual({ a: 1 });
+			expect(await helper.loadKeyValues()).toEqual({ a: 1 });
+			expect(helper.loadKeyValuesSync()).toEqual({ a: 1 });
+			expect(readSpy).toHaveBeenCalledOnce();
+		});
+
+		it("should return copies that do not affect the cached data", async () => {
+			const helper = new JsonFileHelper({ dir: TEST_DIR, fileName: "cache-copy.json", atomicSave: false, prettify: false, numSpaces: 2, cache: true });
+			await helper.saveKeyValues({ a: { b: 1 } });
+
+			const data = await helper.loadKeyValues<{ a: { b: number } }>();
+			data.a.b = 2;
+
+			expect(await helper.loadKeyValues()).toEqual({ a: { b: 1 } });
+		});
+
+		it("should update the cache on save without reading the file again", () => {
+			const helper = new JsonFileHelper({ dir: TEST_DIR, fileName: "cache-save.json", atomicSave: false, prettify: false, numSpaces: 2, cache: true });
+			helper.saveKeyValuesSync({ a: 1 });
+			const readSpy = vi.spyOn(fs, "readFileSync");
+
+			expect(helper.loadKeyValuesSync()).toEqual({ a: 1 });
+			expect(readSpy).not.toHaveBeenCalled();
+		});
+
+		it("should reload the file when its size or mtime changes", async () => {
+			const helper = new JsonFileHelper({ dir: TEST_DIR, fileName: "cache-stale.json", atomicSave: false, prettify: false, numSpaces: 2, cache: true });
+			await helper.saveKeyValues({ a: 1 });
+
+			await fs.promises.writeFile(helper.getJsonFilePath(), JSON.stringify({ a: 1, b: 2 }));
+
+			expect(await helper.loadKeyValues()).toEqual({ a: 1, b: 2 });
+		});
+
+		it("should not cache when the option is disabled", async () => {
+			const helper = new JsonFileHelper({ dir: TEST_DIR, fileName: "no-cache.json", atomicSave: false, prettify: false, numSpaces: 2 });
+			await helper.saveKeyValues({ a: 1 });
+			const readSpy = vi.spyOn(fs.promises, "readFile");
+
+			await helper.loadKeyValues();
+			await helper.loadKeyValues();
+			expect(readSpy).toHaveBeenCalledTimes(2);
+		});
+	});
+
 	describe("Error Handling", () => {
 		it("(Async/Sync) for ensureJsonFile and ensureJsonDir: should throw if fs.promises.statSync fails with an error other than ENOENT", async () => {
 			const MSG_ERROR = "Permission denied";
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+
+import { MemoryAdapter } from "../src";
+
+describe("MemoryAdapter", () => {
+	it("should load an empty object before anything is saved", async () => {
+		const adapter = new MemoryAdapter();
+
+		expect(await adapter.load()).toEqual({});
+		expect(adapter.loadSync()).toEqual({});
+		expect(await adapter.exists()).toBe(false);
+		expect(adapter.existsSync()).toBe(false);
+	});
+
+	it("should start with the initial key values", async () => {
+		const adapter = new MemoryAdapter({ theme: "dark" });
+
+		expect(await adapter.load()).toEqual({ theme: "dark" });
+		expect(adapter.existsSync()).toBe(true);
+	});
+
+	it("should save and load copies of the key values", async () => {
+		const adapter = new MemoryAdapter();
+		const data = { a: { b: 1 } };
+
+		await adapter.save(data);
+		data.a.b = 2;
+		const loaded = adapter.loadSync<typeof data>();
+		loaded.a.b = 3;
+
+		expect(await adapter.load()).toEqual({ a: { b: 1 } });
+
+		adapter.saveSync({ c: 1 });
+		expect(adapter.loadSync()).toEqual({ c: 1 });
+	});
+
+	it("should delete the key values", async () => {
+		const adapter = new MemoryAdapter({ a: 1 });
+
+		await adapter.delete();
+		expect(await adapter.exists()).toBe(false);
+
+		adapter.saveSync({ a: 1 });
+		adapter.deleteSync();
+		expect(adapter.loadSync()).toEqual({});
+	});
+});
@@ -1,8 +1,9 @@
+import { writeFileSync } from "node:fs";
 import fs from "node:fs/promises";
 import path from "node:path";
-import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { afterEach, beforeEach, describe, expect, expectTypeOf, it, vi } from "vitest";
 
-import { KeyValues } from "../src";
+import { KeyValues, MemoryAdapter, type MigrationContext, type ValueType, ValueTypeError } from "../src";
 
 const TEST_DIR = path.resolve(__dirname, "test-data");
 
@@ -145,6 +146,1749 @@ describe("KeyValues", () => {
 		});
 	});
 
+	describe("Write Queue", () => {
+		it("should not lose updates from overlapping set calls", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "queue.json" });
+
+			await Promise.all([kvs.set("a", 1), kvs.set("b", 2), kvs.set("c.d", 3), kvs.unset("a")]);
+
+			expect(await kvs.get()).toEqual({ b: 2, c: { d: 3 } });
+		});
+
+		it("should share the queue between instances pointing to the same file", async () => {
+			const first = new KeyValues({ dir: TEST_DIR, fileName: "queue-shared.json" });
+			const second = new KeyValues({ dir: TEST_DIR, fileName: "queue-shared.json" });
+
+			await Promise.all(Array.from({ length: 10 }, (_, i) => (i % 2 ? first : second).set(`key${i}`, i)));
+
+			expect(Object.keys(await first.get())).toHaveLength(10);
+		});
+
+		it("should keep running queued tasks after a failure", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "queue-error.json" });
+			// biome-ignore lint/complexity/useLiteralKeys: needed for dynamic property access in test
+			vi.spyOn(kvs["jsonHelper"], "loadKeyValues").mockRejectedValueOnce(new Error("boom"));
+
+			const results = await Promise.allSettled([kvs.set("a", 1), kvs.set("b", 2)]);
+
+			expect(results[0].status).toBe("rejected");
+			expect(results[1].status).toBe("fulfilled");
+			expect(await kvs.get()).toEqual({ b: 2 });
+		});
+
+		it("should queue writes scheduled from inside a task once it has settled", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "queue-scheduled.json" });
+			const other = new KeyValues({ dir: TEST_DIR, fileName: "queue-scheduled.json" });
+			const slowIncrement = async (count = 0): Promise<number> => {
+				await new Promise((resolve) => setTimeout(resolve, 20));
+				return count + 1;
+			};
+			let scheduled: Promise<number> | undefined;
+			let started = () => {};
+			const timerFired = new Promise<void>((resolve) => {
+				started = resolve;
+			});
+
+			await kvs.withLock(() => {
+				setTimeout(() => {
+					scheduled = kvs.update<number>("count", slowIncrement);
+					started();
+				}, 0);
+			});
+			await timerFired;
+			await Promise.all([scheduled, other.update<number>("count", slowIncrement)]);
+
+			expect(await kvs.get("count")).toBe(2);
+		});
+
+		it("should queue writes made by subscribers", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "queue-subscriber.json" });
+			let written: Promise<void> | undefined;
+			kvs.onDidChange("a", () => {
+				written = kvs.set("b", 2);
+			});
+
+			await kvs.set("a", 1);
+			await written;
+
+			expect(await kvs.get()).toEqual({ a: 1, b: 2 });
+		});
+	});
+
+	describe("File Watching", () => {
+		let kvs: KeyValues;
+
+		beforeEach(() => {
+			kvs = new KeyValues({ dir: TEST_DIR, fileName: "watch.json" });
+		});
+
+		afterEach(() => {
+			kvs.close();
+		});
+
+		it("should report external modifications of the file", async () => {
+			const callback = vi.fn();
+			const anyCallback = vi.fn();
+			await kvs.set({ theme: "dark", lang: "en" });
+			kvs.onDidChange("theme", callback);
+			kvs.onDidAnyChange(anyCallback);
+			kvs.watch({ debounce: 10 });
+
+			await fs.writeFile(kvs.file(), JSON.stringify({ theme: "light", lang: "en" }));
+
+			await vi.waitFor(() => expect(callback).toHaveBeenCalledWith("light", "dark"));
+			expect(anyCallback).toHaveBeenCalledWith({ theme: "light", lang: "en" }, { theme: "dark", lang: "en" }, ["theme"]);
+		});
+
+		it("should report changes made by another instance only once", async () => {
+			const other = new KeyValues({ dir: TEST_DIR, fileName: "watch.json" });
+			const callback = vi.fn();
+			kvs.onDidAnyChange(callback);
+			kvs.watch({ debounce: 10 });
+
+			await other.set("a", 1);
+			await vi.waitFor(() => expect(callback).toHaveBeenCalledOnce());
+
+			const adapter = kvs["adapter"];
+			const load = adapter.load.bind(adapter);
+			let resume = () => {};
+			const paused = new Promise<void>((resolve) => {
+				resume = resolve;
+			});
+			vi.spyOn(adapter, "load").mockImplementationOnce(async () => {
+				const data = await load();
+				await paused;
+				return data;
+			});
+
+			const reload = kvs["reloadWatched"]();
+			const write = kvs.set("b", 2);
+			await new Promise((resolve) => setTimeout(resolve, 20));
+			resume();
+			await Promise.all([reload, write]);
+			await kvs["reloadWatched"]();
+
+			expect(callback).toHaveBeenCalledTimes(2);
+			expect(callback).toHaveBeenLastCalledWith({ a: 1, b: 2 }, { a: 1 }, ["b"]);
+		});
+
+		it("should ignore unreadable content until the next change", async () => {
+			const callback = vi.fn();
+			kvs.onDidAnyChange(callback);
+			kvs.watch({ debounce: 10 });
+
+			await fs.writeFile(kvs.file(), '{"a": ');
+			await new Promise((resolve) => setTimeout(resolve, 50));
+			expect(callback).not.toHaveBeenCalled();
+
+			await fs.writeFile(kvs.file(), '{"a": 1}');
+			await vi.waitFor(() => expect(callback).toHaveBeenCalledWith({ a: 1 }, {}, ["a"]));
+		});
+
+		it("should stop reporting after close", async () => {
+			const callback = vi.fn();
+			kvs.onDidAnyChange(callback);
+			kvs.watch({ debounce: 10 });
+			kvs.close();
+
+			await fs.writeFile(kvs.file(), '{"a": 1}');
+			await new Promise((resolve) => setTimeout(resolve, 50));
+			expect(callback).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("File Lock", () => {
+		it("should hold the lock file while running withLock", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "lock.json" });
+
+			const result = await kvs.withLock(async () => {
+				expect(await fs.stat(`${kvs.file()}.lock`)).toBeDefined();
+				await kvs.set("a", 1);
+				kvs.setSync("b", 2);
+				return kvs.get();
+			});
+
+			expect(result).toEqual({ a: 1, b: 2 });
+			await expect(fs.stat(`${kvs.file()}.lock`)).rejects.toThrow();
+		});
+
+		it("should queue set calls made outside withLock until it finishes", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "lock-order.json", lock: true });
+			const order: string[] = [];
+
+			await Promise.all([
+				kvs.withLock(async () => {
+					await new Promise((resolve) => setTimeout(resolve, 20));
+					order.push("withLock");
+				}),
+				kvs.set("a", 1).then(() => order.push("set")),
+			]);
+
+			expect(order).toEqual(["withLock", "set"]);
+		});
+
+		it("should fail to set while another process holds the lock", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "lock-held.json", lock: { timeout: 50, retryInterval: 10 } });
+			await fs.writeFile(`${kvs.file()}.lock`, "{}");
+
+			await expect(kvs.set("a", 1)).rejects.toThrow("Failed to acquire lock");
+			expect(() => kvs.unsetSync("a")).toThrow("Failed to acquire lock");
+		});
+	});
+
+	describe("Change Events", () => {
+		let kvs: KeyValues;
+
+		beforeEach(() => {
+			kvs = new KeyValues({ dir: TEST_DIR, fileName: "events.json" });
+		});
+
+		it("should notify key path subscribers after set and setSync", async () => {
+			const callback = vi.fn();
+			kvs.onDidChange("color.name", callback);
+
+			await kvs.set("color.name", "cerulean");
+			kvs.setSync("color.name", "sapphire");
+
+			expect(callback).toHaveBeenNthCalledWith(1, "cerulean", undefined);
+			expect(callback).toHaveBeenNthCalledWith(2, "sapphire", "cerulean");
+		});
+
+		it("should only notify when the value actually changed", async () => {
+			const callback = vi.fn();
+			await kvs.set("color", { name: "cerulean", rgb: [0, 179, 230] });
+			kvs.onDidChange("color", callback);
+
+			await kvs.set("color.rgb", [0, 179, 230]);
+			await kvs.set("other", true);
+			expect(callback).not.toHaveBeenCalled();
+
+			await kvs.set("color.rgb[1]", 180);
+			expect(callback).toHaveBeenCalledWith({ name: "cerulean", rgb: [0, 180, 230] }, { name: "cerulean", rgb: [0, 179, 230] });
+		});
+
+		it("should notify after unset and unsetSync", async () => {
+			const callback = vi.fn();
+			await kvs.set({ a: 1, b: 2 });
+			kvs.onDidChange("a", callback);
+			kvs.onDidChange(["b"], callback);
+
+			await kvs.unset("a");
+			kvs.unsetSync();
+
+			expect(callback).toHaveBeenNthCalledWith(1, undefined, 1);
+			expect(callback).toHaveBeenNthCalledWith(2, undefined, 2);
+		});
+
+		it("should notify any-change subscribers with the whole key values", () => {
+			const callback = vi.fn();
+			kvs.setSync({ a: 1 });
+			kvs.onDidAnyChange(callback);
+
+			kvs.setSync({ a: 1 });
+			expect(callback).not.toHaveBeenCalled();
+
+			kvs.setSync("b", 2);
+			expect(callback).toHaveBeenCalledWith({ a: 1, b: 2 }, { a: 1 }, ["b"]);
+		});
+
+		it("should report the deepest changed key paths", async () => {
+			const callback = vi.fn();
+			await kvs.set({ color: { name: "cerulean", rgb: [0, 179, 230] }, theme: "dark" });
+			kvs.onDidAnyChange(callback);
+
+			await kvs.set({ color: { name: "sapphire", rgb: [0, 180, 230] }, theme: "dark", lang: "en" });
+
+			expect(callback.mock.calls[0][2]).toEqual(["color.name", "color.rgb.1", "lang"]);
+		});
+
+		it("should keep writing and notifying when a subscriber throws", async () => {
+			const warn = vi.spyOn(process, "emitWarning").mockImplementation(() => undefined);
+			const callback = vi.fn();
+			kvs.onDidChange("a", () => {
+				throw new Error("listener failed");
+			});
+			kvs.onDidAnyChange(callback);
+
+			await expect(kvs.set("a", 1)).resolves.toBeUndefined();
+			expect(() => kvs.unsetSync("a")).not.toThrow();
+
+			expect(JSON.parse(await fs.readFile(kvs.file(), "utf-8"))).toEqual({});
+			expect(callback).toHaveBeenCalledTimes(2);
+			expect(warn).toHaveBeenCalledWith(new Error("listener failed"), "ChangeListenerWarning");
+			warn.mockRestore();
+		});
+
+		it("should stop notifying after unsubscribing", async () => {
+			const callback = vi.fn();
+			const unsubscribe = kvs.onDidChange("a", callback);
+			const unsubscribeAny = kvs.onDidAnyChange(callback);
+
+			unsubscribe();
+			unsubscribeAny();
+			await kvs.set("a", 1);
+
+			expect(callback).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("Schema Validation", () => {
+		const schema = {
+			type: "object",
+			properties: {
+				theme: { type: "string", enum: ["light", "dark"] },
+				window: {
+					type: "object",
+					properties: { width: { type: "number" }, height: { type: "number" } },
+					required: ["width"],
+				},
+			},
+		};
+
+		it("should save values that match the schema", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "schema.json", schema });
+
+			await kvs.set("theme", "dark");
+			kvs.setSync("window", { width: 800 });
+
+			expect(kvs.getSync()).toEqual({ theme: "dark", window: { width: 800 } });
+		});
+
+		it("should reject writes that don't match the schema, listing the failing paths", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "schema-invalid.json", schema });
+			await kvs.set("theme", "dark");
+
+			await expect(kvs.set("theme", 42)).rejects.toThrow("Invalid key values: theme must be string; theme must be equal to one of the allowed values");
+			expect(() => kvs.setSync("window", { width: "800", height: "600" })).toThrow(
+				"Invalid key values: window.width must be number; window.height must be number"
+			);
+			expect(() => kvs.setSync({ window: {} })).toThrow("Invalid key values: window.width must have required property 'width'");
+
+			expect(await kvs.get()).toEqual({ theme: "dark" });
+		});
+
+		it("should reject unsets that break the schema", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "schema-unset.json", schema });
+			await kvs.set("window", { width: 800 });
+
+			await expect(kvs.unset("window.width")).rejects.toThrow("window.width must have required property 'width'");
+		});
+
+		it("should only validate on load when validateOnLoad is enabled", async () => {
+			const filePath = path.join(TEST_DIR, "schema-load.json");
+			await fs.writeFile(filePath, JSON.stringify({ theme: "blue" }));
+
+			const lenient = new KeyValues({ dir: TEST_DIR, fileName: "schema-load.json", schema });
+			expect(lenient.getSync("theme")).toBe("blue");
+
+			const strict = new KeyValues({ dir: TEST_DIR, fileName: "schema-load.json", schema, validateOnLoad: true });
+			expect(() => strict.getSync("theme")).toThrow("Invalid key values: theme must be equal to one of the allowed values");
+			await expect(strict.get("theme")).rejects.toThrow("Failed to get value: Invalid key values");
+		});
+	});
+
+	describe("Defaults", () => {
+		const defaults = { theme: "light", window: { width: 800, height: 600 }, recent: ["a", "b"] };
+		let kvs: KeyValues;
+
+		beforeEach(() => {
+			kvs = new KeyValues({ dir: TEST_DIR, fileName: "defaults.json", defaults });
+		});
+
+		it("should return defaults for values that were never set", async () => {
+			expect(await kvs.get("window.width")).toBe(800);
+			expect(kvs.getSync()).toEqual(defaults);
+			expect(await kvs.has("theme")).toBe(true);
+			expect(kvs.hasSync("window.height")).toBe(true);
+			expect(await fs.readFile(kvs.file(), "utf-8")).toBe("{}");
+		});
+
+		it("should deep-merge stored values over the defaults", async () => {
+			await kvs.set("window.width", 1024);
+			kvs.setSync("recent", ["c"]);
+
+			expect(await kvs.get()).toEqual({ theme: "light", window: { width: 1024, height: 600 }, recent: ["c"] });
+		});
+
+		it("should revert to the default when unset", async () => {
+			await kvs.set("theme", "dark");
+			await kvs.unset("theme");
+			expect(await kvs.get("theme")).toBe("light");
+
+			kvs.setSync("window.height", 720);
+			kvs.unsetSync();
+			expect(kvs.getSync("window.height")).toBe(600);
+		});
+
+		it("should write defaults back with reset and resetSync", async () => {
+			await kvs.set({ theme: "dark", window: { width: 1024 }, other: true });
+
+			await kvs.reset("window");
+			expect(JSON.parse(await fs.readFile(kvs.file(), "utf-8"))).toEqual({ theme: "dark", window: { width: 800, height: 600 }, other: true });
+
+			kvs.resetSync("other");
+			expect(kvs.hasSync("other")).toBe(false);
+
+			kvs.resetSync();
+			expect(JSON.parse(await fs.readFile(kvs.file(), "utf-8"))).toEqual(defaults);
+		});
+
+		it("should not share references with the defaults", async () => {
+			const value = await kvs.get<{ width: number }>("window");
+			value.width = 1;
+
+			await kvs.reset();
+			const stored = await kvs.get<typeof defaults>();
+			stored.recent.push("c");
+
+			expect(kvs.getSync("window.width")).toBe(800);
+			expect(defaults.recent).toEqual(["a", "b"]);
+		});
+
+		it("should report changes of the merged values", async () => {
+			const callback = vi.fn();
+			await kvs.set("theme", "dark");
+			kvs.onDidChange("theme", callback);
+
+			await kvs.unset("theme");
+
+			expect(callback).toHaveBeenCalledWith("light", "dark");
+		});
+	});
+
+	describe("Migrations", () => {
+		const migrations = {
+			"1.0.0": (store: MigrationContext) => store.set("theme", "light"),
+			"1.10.0": (store: MigrationContext) => {
+				store.set("appearance.theme", store.get("theme"));
+				store.unset("theme");
+			},
+			"1.2.0": (store: MigrationContext) => store.set("lang", store.has("lang") ? store.get("lang") : "en"),
+		};
+
+		it("should run all migrations in version order on first load", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "migrations.json", migrations });
+
+			expect(await kvs.get()).toEqual({ appearance: { theme: "light" }, lang: "en" });
+
+			const stored = JSON.parse(await fs.readFile(kvs.file(), "utf-8"));
+			expect(stored.__internal__).toEqual({ version: "1.10.0" });
+		});
+
+		it("should only run migrations newer than the stored version", () => {
+			const filePath = path.join(TEST_DIR, "migrations-pending.json");
+			const migration = vi.fn();
+			writeFileSync(filePath, JSON.stringify({ theme: "dark", __internal__: { version: "1.2.0" } }));
+
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "migrations-pending.json", migrations: { ...migrations, "0.9.0": migration } });
+
+			expect(kvs.getSync()).toEqual({ appearance: { theme: "dark" } });
+			expect(kvs.hasSync("__internal__")).toBe(false);
+			expect(migration).not.toHaveBeenCalled();
+		});
+
+		it("should give the migration context the versions it upgrades between", () => {
+			const migration = vi.fn();
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "migrations-context.json", migrations: { "2.0.0": migration } });
+
+			kvs.getSync();
+
+			expect(migration).toHaveBeenCalledWith(expect.objectContaining({ fromVersion: undefined, toVersion: "2.0.0" }));
+		});
+
+		it("should roll back every pending migration if one throws", async () => {
+			const filePath = path.join(TEST_DIR, "migrations-error.json");
+			await fs.writeFile(filePath, JSON.stringify({ theme: "dark" }));
+			const failing = {
+				...migrations,
+				"1.5.0": () => {
+					throw new Error("boom");
+				},
+			};
+
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "migrations-error.json", migrations: failing });
+
+			await expect(kvs.get()).rejects.toThrow("Failed to get value: Failed to run migration 1.5.0: boom");
+			expect(() => kvs.getSync()).toThrow("Failed to run migration 1.5.0: boom");
+			expect(JSON.parse(await fs.readFile(filePath, "utf-8"))).toEqual({ theme: "dark" });
+		});
+
+		it("should keep the stored version when replacing or unsetting all key values", async () => {
+			const migration = vi.fn();
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "migrations-keep.json", migrations: { "1.0.0": migration } });
+
+			await kvs.set({ a: 1 });
+			kvs.unsetSync();
+			expect(await kvs.unset()).toBe(false);
+
+			const other = new KeyValues({ dir: TEST_DIR, fileName: "migrations-keep.json", migrations: { "1.0.0": migration } });
+			expect(other.getSync()).toEqual({});
+			expect(migration).toHaveBeenCalledOnce();
+		});
+	});
+
+	describe("Encryption", () => {
+		it("should encrypt the file at rest and read it back", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "encrypted.json", encryptionKey: "secret" });
+
+			await kvs.set("token", "abc123");
+			kvs.setSync("user.name", "John");
+
+			const content = await fs.readFile(kvs.file());
+			expect(content.toString("utf-8")).not.toContain("abc123");
+			expect(await kvs.get()).toEqual({ token: "abc123", user: { name: "John" } });
+			expect(new KeyValues({ dir: TEST_DIR, fileName: "encrypted.json", encryptionKey: "secret" }).getSync("token")).toBe("abc123");
+		});
+
+		it("should fail with a clear error on a wrong key", async () => {
+			await new KeyValues({ dir: TEST_DIR, fileName: "encrypted-key.json", encryptionKey: "secret" }).set("a", 1);
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "encrypted-key.json", encryptionKey: "wrong" });
+
+			await expect(kvs.get()).rejects.toThrow("wrong encryption key or the file was tampered with");
+			expect(() => kvs.hasSync("a")).toThrow("wrong encryption key or the file was tampered with");
+		});
+
+		it("should rotate the encryption key", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "encrypted-rotate.json", encryptionKey: "old" });
+			await kvs.set("a", 1);
+
+			await kvs.rotateEncryptionKey("new");
+
+			expect(await kvs.get("a")).toBe(1);
+			expect(new KeyValues({ dir: TEST_DIR, fileName: "encrypted-rotate.json", encryptionKey: "new" }).getSync("a")).toBe(1);
+			expect(() => new KeyValues({ dir: TEST_DIR, fileName: "encrypted-rotate.json", encryptionKey: "old" }).getSync()).toThrow("wrong encryption key");
+		});
+
+		it("should re-encrypt the backups and snapshots when rotating the key", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "encrypted-history.json", encryptionKey: "old", backups: 3 });
+			await kvs.set("v", 1);
+			await kvs.snapshot("first");
+			await kvs.set("v", 2);
+			await kvs.set("v", 3);
+			const [{ createdAt }] = await kvs.listSnapshots();
+
+			await kvs.rotateEncryptionKey("new");
+
+			for (const [backup, v] of [[1, 3], [2, 3], [3, 2]]) {
+				const fileName = `encrypted-history.json.bak.${backup}`;
+				expect(new KeyValues({ dir: TEST_DIR, fileName, encryptionKey: "new" }).getSync("v")).toBe(v);
+			}
+			expect(await kvs.listSnapshots()).toEqual([{ name: "first", createdAt }]);
+
+			await kvs.restoreSnapshot("first");
+			expect(await kvs.get("v")).toBe(1);
+		});
+
+		it("should encrypt a plain file when rotating without a current key", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "encrypted-plain.json" });
+			await kvs.set("a", 1);
+
+			await kvs.rotateEncryptionKey("secret");
+
+			expect(() => new KeyValues({ dir: TEST_DIR, fileName: "encrypted-plain.json" }).getSync()).toThrow();
+			expect(new KeyValues({ dir: TEST_DIR, fileName: "encrypted-plain.json", encryptionKey: "secret" }).getSync("a")).toBe(1);
+		});
+	});
+
+	describe("Storage Adapter", () => {
+		it("should read and write through a custom adapter", async () => {
+			const adapter = new MemoryAdapter({ theme: "dark" });
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "adapter.json", adapter });
+
+			await kvs.set("lang", "en");
+			kvs.setSync("window.width", 800);
+			await kvs.unset("theme");
+
+			expect(adapter.loadSync()).toEqual({ lang: "en", window: { width: 800 } });
+			expect(await kvs.get()).toEqual({ lang: "en", window: { width: 800 } });
+			expect(kvs.hasSync("window.width")).toBe(true);
+			await expect(fs.stat(kvs.file())).rejects.toThrow();
+		});
+
+		it("should queue overlapping writes per adapter", async () => {
+			const adapter = new MemoryAdapter();
+			const first = new KeyValues({ adapter });
+			const second = new KeyValues({ adapter });
+
+			await Promise.all([first.set("a", 1), second.set("b", 2), first.set("c", 3)]);
+
+			expect(adapter.loadSync()).toEqual({ a: 1, b: 2, c: 3 });
+		});
+
+		it("should refuse to watch a custom adapter", () => {
+			const kvs = new KeyValues({ adapter: new MemoryAdapter() });
+			expect(() => kvs.watch()).toThrow("only the default JSON file storage can be watched");
+		});
+	});
+
+	describe("YAML Format", () => {
+		it("should detect YAML from the file extension", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "config.yaml" });
+
+			await kvs.set("server", { host: "localhost", ports: [80, 443] });
+			kvs.setSync("debug", true);
+
+			expect(await fs.readFile(kvs.file(), "utf-8")).toBe("server:\n  host: localhost\n  ports:\n    - 80\n    - 443\ndebug: true\n");
+			expect(await kvs.get("server.ports.1")).toBe(443);
+
+			await kvs.unset("server.host");
+			expect(new KeyValues({ dir: TEST_DIR, fileName: "config.yaml" }).getSync()).toEqual({ server: { ports: [80, 443] }, debug: true });
+		});
+
+		it("should read hand-edited YAML files", async () => {
+			writeFileSync(path.join(TEST_DIR, "edited.yml"), "# managed by ops\ntheme: dark\nwindow:\n  width: 800\n");
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "edited.yml" });
+
+			expect(await kvs.get()).toEqual({ theme: "dark", window: { width: 800 } });
+			expect(kvs.hasSync("window.width")).toBe(true);
+		});
+
+		it("should indent YAML by numSpaces when prettify is set", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "pretty.yaml", prettify: true, numSpaces: 4 });
+
+			await kvs.set("a.b", 1);
+
+			expect(await fs.readFile(kvs.file(), "utf-8")).toBe("a:\n    b: 1\n");
+		});
+
+		it("should honor the format option over the file extension", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "settings.conf", format: "yaml" });
+			await kvs.set("a", 1);
+			expect(await fs.readFile(kvs.file(), "utf-8")).toBe("a: 1\n");
+
+			const json = new KeyValues({ dir: TEST_DIR, fileName: "settings.yaml", format: "json" });
+			await json.set("a", 1);
+			expect(await fs.readFile(json.file(), "utf-8")).toBe('{"a":1}');
+		});
+	});
+
+	describe("JSONC Format", () => {
+		const annotated = `{
+	// the UI theme
+	"theme": "dark",
+	/* window bounds */
+	"window": {
+		"width": 800, // pixels
+		"height": 600,
+	},
+	"recent": ["a.txt", "b.txt",],
+}
+`;
+
+		it("should read comments and trailing commas", async () => {
+			writeFileSync(path.join(TEST_DIR, "settings.jsonc"), annotated);
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "settings.jsonc" });
+
+			expect(await kvs.get()).toEqual({ theme: "dark", window: { width: 800, height: 600 }, recent: ["a.txt", "b.txt"] });
+			expect(kvs.getSync("window.width")).toBe(800);
+		});
+
+		it("should keep comments and key order of untouched keys when saving", async () => {
+			writeFileSync(path.join(TEST_DIR, "settings.jsonc"), annotated);
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "settings.jsonc" });
+
+			await kvs.set("window.height", 720);
+			kvs.setSync("lang", "en");
+
+			const content = await fs.readFile(kvs.file(), "utf-8");
+			expect(content).toContain("// the UI theme");
+			expect(content).toContain("/* window bounds */");
+			expect(content).toContain('"width": 800, // pixels');
+			expect(content).toContain('"height": 720');
+			expect(content.indexOf('"theme"')).toBeLessThan(content.indexOf('"window"'));
+			expect(content.indexOf('"recent"')).toBeLessThan(content.indexOf('"lang"'));
+			expect(await kvs.get()).toEqual({ theme: "dark", window: { width: 800, height: 720 }, recent: ["a.txt", "b.txt"], lang: "en" });
+
+			await kvs.unset("recent");
+			expect(await kvs.has("recent")).toBe(false);
+			expect(await fs.readFile(kvs.file(), "utf-8")).toContain("// the UI theme");
+		});
+
+		it("should keep the layout of inline objects and arrays before an inserted key", async () => {
+			writeFileSync(path.join(TEST_DIR, "inline.jsonc"), '{\n  "n": {"x": 1},\n  "list": [1, 2]\n}\n');
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "inline.jsonc" });
+
+			await kvs.set("c", 3);
+			await kvs.set("d", { e: [4] });
+
+			expect(await fs.readFile(kvs.file(), "utf-8")).toBe(
+				'{\n  "n": {"x": 1},\n  "list": [1, 2],\n  "c": 3,\n  "d": {\n    "e": [\n      4\n    ]\n  }\n}\n'
+			);
+		});
+
+		it("should read and keep the JSON5 syntax of untouched keys", async () => {
+			const json5 = `{
+	// JSON5
+	name: 'it\\'s',
+	hex: 0x1F,
+	ratio: .5,
+	max: +Infinity,
+	nan: NaN,
+	nested: { 'quoted': "a\\
+b" },
+}
+`;
+			writeFileSync(path.join(TEST_DIR, "settings.json5"), json5);
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "settings.json5" });
+
+			expect(await kvs.get()).toEqual({ name: "it's", hex: 31, ratio: 0.5, max: Number.POSITIVE_INFINITY, nan: null, nested: { quoted: "ab" } });
+
+			await kvs.set("hex", 32);
+			kvs.setSync("lang", "en");
+
+			const content = await fs.readFile(kvs.file(), "utf-8");
+			expect(content).toContain("name: 'it\\'s',");
+			expect(content).toContain("hex: 32,");
+			expect(content).toContain("max: +Infinity,");
+			expect(content).toContain("\t\"lang\": \"en\"");
+			expect(kvs.getSync("nested.quoted")).toBe("ab");
+		});
+
+		it("should report the line of a syntax error", async () => {
+			writeFileSync(path.join(TEST_DIR, "broken.json"), '{\n  "a": 1\n  "b": 2\n}');
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "broken.json", format: "jsonc" });
+
+			await expect(kvs.get()).rejects.toThrow("Failed to parse key values: CommaExpected at line 3");
+		});
+	});
+
+	describe("Corruption Recovery", () => {
+		it("should keep rotating backups of the saved content", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "backups.json", backups: 2 });
+
+			await kvs.set("v", 1);
+			await kvs.set("v", 2);
+			kvs.setSync("v", 3);
+
+			expect(JSON.parse(await fs.readFile(`${kvs.file()}.bak.1`, "utf-8"))).toEqual({ v: 3 });
+			expect(JSON.parse(await fs.readFile(`${kvs.file()}.bak.2`, "utf-8"))).toEqual({ v: 2 });
+			await expect(fs.stat(`${kvs.file()}.bak.3`)).rejects.toThrow();
+		});
+
+		it("should throw on a corrupt file by default", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "corrupt.json", backups: 1 });
+			await kvs.set("a", 1);
+			writeFileSync(kvs.file(), '{"a": 1');
+
+			await expect(kvs.get()).rejects.toThrow("Failed to get value");
+			expect(() => kvs.getSync()).toThrow();
+		});
+
+		it("should restore the newest valid backup and report it", async () => {
+			const onRecover = vi.fn();
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "restore.json", backups: 3, onCorrupt: "restoreBackup", onRecover });
+			await kvs.set("v", 1);
+			await kvs.set("v", 2);
+			writeFileSync(`${kvs.file()}.bak.1`, "{");
+			writeFileSync(kvs.file(), "{");
+
+			expect(await kvs.get("v")).toBe(1);
+			expect(JSON.parse(await fs.readFile(kvs.file(), "utf-8"))).toEqual({ v: 1 });
+			expect(onRecover).toHaveBeenCalledWith(expect.objectContaining({ filePath: kvs.file(), strategy: "restoreBackup", backup: `${kvs.file()}.bak.2` }));
+
+			writeFileSync(kvs.file(), "{");
+			expect(kvs.getSync("v")).toBe(1);
+		});
+
+		it("should fail when no backup can be restored", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "no-backup.json", backups: 2, onCorrupt: "restoreBackup" });
+			writeFileSync(kvs.file(), "{");
+
+			await expect(kvs.get()).rejects.toThrow("no valid backup was found");
+			expect(() => kvs.hasSync("a")).toThrow("no valid backup was found");
+		});
+
+		it("should reset a corrupt file", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "reset-corrupt.json", onCorrupt: "reset" });
+			writeFileSync(kvs.file(), "not json");
+
+			expect(await kvs.get()).toEqual({});
+			expect(await fs.readFile(kvs.file(), "utf-8")).toBe("{}");
+		});
+
+		it("should ask a callback which strategy to apply", async () => {
+			const onCorrupt = vi.fn().mockReturnValue("reset");
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "callback-corrupt.json", onCorrupt });
+			writeFileSync(kvs.file(), "{");
+
+			kvs.setSync("a", 1);
+
+			expect(onCorrupt).toHaveBeenCalledWith(expect.any(SyntaxError), kvs.file());
+			expect(kvs.getSync()).toEqual({ a: 1 });
+		});
+	});
+
+	describe("Snapshots", () => {
+		it("should save, list and restore named snapshots", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "snapshots.json" });
+			await kvs.set({ theme: "dark", plugins: ["a"] });
+
+			expect(await kvs.snapshot("before-import")).toBe("before-import");
+			await kvs.set("plugins", ["a", "b", "c"]);
+			await kvs.unset("theme");
+
+			const snapshots = await kvs.listSnapshots();
+			expect(snapshots).toEqual([{ name: "before-import", createdAt: expect.any(Date) }]);
+			expect(await fs.readFile(path.join(`${kvs.file()}.snapshots`, "before-import.json"), "utf-8")).toBe('{"theme":"dark","plugins":["a"]}');
+
+			await kvs.restoreSnapshot("before-import");
+			expect(await kvs.get()).toEqual({ theme: "dark", plugins: ["a"] });
+		});
+
+		it("should name snapshots after the current time by default", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "snapshots-default.json" });
+			await kvs.set("a", 1);
+
+			const name = await kvs.snapshot();
+
+			expect(name).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}\.\d{3}Z$/);
+			expect((await kvs.listSnapshots()).map((snapshot) => snapshot.name)).toEqual([name]);
+		});
+
+		it("should list snapshots from the oldest to the newest", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "snapshots-order.json" });
+			await kvs.snapshot("second");
+			await kvs.snapshot("first");
+			const past = new Date(Date.now() - 60000);
+			await fs.utimes(path.join(`${kvs.file()}.snapshots`, "first.json"), past, past);
+
+			expect((await kvs.listSnapshots()).map((snapshot) => snapshot.name)).toEqual(["first", "second"]);
+		});
+
+		it("should notify the subscribers when restoring", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "snapshots-events.json" });
+			await kvs.set("color", "blue");
+			await kvs.snapshot("blue");
+			await kvs.set("color", "red");
+			const callback = vi.fn();
+			kvs.onDidChange("color", callback);
+
+			await kvs.restoreSnapshot("blue");
+
+			expect(callback).toHaveBeenCalledWith("blue", "red");
+		});
+
+		it("should delete snapshots", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "snapshots-delete.json" });
+			await kvs.snapshot("old");
+
+			expect(await kvs.deleteSnapshot("old")).toBe(true);
+			expect(await kvs.deleteSnapshot("old")).toBe(false);
+			expect(await kvs.listSnapshots()).toEqual([]);
+			await expect(kvs.restoreSnapshot("old")).rejects.toThrow('Failed to restore snapshot: "old" does not exist');
+		});
+
+		it("should reject invalid snapshot names", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "snapshots-names.json" });
+
+			await expect(kvs.snapshot("../escape")).rejects.toThrow('Invalid snapshot name: "../escape"');
+			await expect(kvs.deleteSnapshot("")).rejects.toThrow("Invalid snapshot name");
+		});
+
+		it("should encrypt snapshots like the keyvalues file", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "snapshots-encrypted.json", encryptionKey: "secret" });
+			await kvs.set("token", "abc123");
+			await kvs.snapshot("encrypted");
+			await kvs.unset("token");
+
+			const content = await fs.readFile(path.join(`${kvs.file()}.snapshots`, "encrypted.json"));
+			expect(content.toString("utf-8")).not.toContain("abc123");
+
+			await kvs.restoreSnapshot("encrypted");
+			expect(await kvs.get("token")).toBe("abc123");
+		});
+	});
+
+	describe("Time To Live", () => {
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it("should hide values once their ttl has expired", async () => {
+			vi.useFakeTimers({ toFake: ["Date"] });
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "ttl.json" });
+
+			await kvs.set("session.token", "abc123", { ttl: 1000 });
+			kvs.setSync("session.user", "john", { ttl: 5000 });
+			await kvs.set("theme", "dark");
+
+			expect(await kvs.get()).toEqual({ session: { token: "abc123", user: "john" }, theme: "dark" });
+
+			vi.advanceTimersByTime(1000);
+
+			expect(await kvs.get()).toEqual({ session: { user: "john" }, theme: "dark" });
+			expect(await kvs.has("session.token")).toBe(false);
+			expect(kvs.getSync("session.token")).toBeUndefined();
+			expect(kvs.hasSync("session.user")).toBe(true);
+		});
+
+		it("should store the expirations out of the key values", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "ttl-metadata.json" });
+
+			await kvs.set("token", "abc123", { ttl: 60000 });
+
+			const stored = JSON.parse(await fs.readFile(kvs.file(), "utf-8"));
+			expect(stored.__internal__.expirations).toEqual([{ keyPath: ["token"], expiresAt: expect.any(Number) }]);
+			expect(await kvs.get()).toEqual({ token: "abc123" });
+		});
+
+		it("should remove expired values on the next write", async () => {
+			vi.useFakeTimers({ toFake: ["Date"] });
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "ttl-write.json" });
+			await kvs.set("token", "abc123", { ttl: 1000 });
+
+			vi.advanceTimersByTime(1000);
+			await kvs.set("theme", "dark");
+
+			expect(JSON.parse(await fs.readFile(kvs.file(), "utf-8"))).toEqual({ theme: "dark" });
+		});
+
+		it("should keep a value written at or below an expired key path", async () => {
+			vi.useFakeTimers({ toFake: ["Date"] });
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "ttl-overwrite.json" });
+			await kvs.set("session", { user: "john" }, { ttl: 1000 });
+			await kvs.set("draft", "abc", { ttl: 1000 });
+
+			vi.advanceTimersByTime(1000);
+			await kvs.set("session.count", 1);
+			kvs.setSync("draft", "def");
+			await kvs.transaction((tx) => tx.set("session.theme", "dark"));
+
+			expect(JSON.parse(await fs.readFile(kvs.file(), "utf-8"))).toEqual({ session: { count: 1, theme: "dark" }, draft: "def" });
+		});
+
+		it("should restart an atomic operation on an expired value", async () => {
+			vi.useFakeTimers({ toFake: ["Date"] });
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "ttl-increment.json" });
+			await kvs.set("counter", 5, { ttl: 1000 });
+			await kvs.set("tags", ["a"], { ttl: 1000 });
+
+			vi.advanceTimersByTime(1000);
+
+			expect(await kvs.increment("counter")).toBe(1);
+			expect(kvs.pushSync("tags", "b")).toEqual(["b"]);
+			expect(JSON.parse(await fs.readFile(kvs.file(), "utf-8"))).toEqual({ counter: 1, tags: ["b"] });
+		});
+
+		it("should purge expired values on demand", async () => {
+			vi.useFakeTimers({ toFake: ["Date"] });
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "ttl-purge.json" });
+			await kvs.set("a", 1, { ttl: 1000 });
+			await kvs.set("b.c", 2, { ttl: 1000 });
+			await kvs.set("d", 3, { ttl: 5000 });
+
+			vi.advanceTimersByTime(1000);
+
+			expect(await kvs.purgeExpired()).toEqual(["a", "b.c"]);
+			expect(kvs.purgeExpiredSync()).toEqual([]);
+			const stored = JSON.parse(await fs.readFile(kvs.file(), "utf-8"));
+			expect(stored).toEqual({ b: {}, d: 3, __internal__: { expirations: [{ keyPath: ["d"], expiresAt: expect.any(Number) }] } });
+		});
+
+		it("should make a value permanent when set again without ttl", async () => {
+			vi.useFakeTimers({ toFake: ["Date"] });
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "ttl-permanent.json" });
+			await kvs.set("a.b", 1, { ttl: 1000 });
+			await kvs.set("a", { b: 2 });
+
+			vi.advanceTimersByTime(1000);
+
+			expect(await kvs.get("a.b")).toBe(2);
+			expect(JSON.parse(await fs.readFile(kvs.file(), "utf-8"))).toEqual({ a: { b: 2 } });
+		});
+
+		it("should fall back to the default of an expired value", async () => {
+			vi.useFakeTimers({ toFake: ["Date"] });
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "ttl-defaults.json", defaults: { theme: "light" } });
+			await kvs.set("theme", "dark", { ttl: 1000 });
+
+			vi.advanceTimersByTime(1000);
+
+			expect(await kvs.get("theme")).toBe("light");
+		});
+
+		it("should reject an invalid ttl", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "ttl-invalid.json" });
+
+			await expect(kvs.set("a", 1, { ttl: 0 })).rejects.toThrow("Invalid ttl: 0 is not a positive number of milliseconds");
+			expect(() => kvs.setSync("a", 1, { ttl: Number.NaN })).toThrow("Invalid ttl");
+		});
+	});
+
+	describe("Transactions", () => {
+		it("should apply every operation in a single write", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "transaction.json" });
+			await kvs.set({ color: { name: "sapphire" }, size: 1 });
+			const saveSpy = vi.spyOn(kvs["adapter"], "save");
+
+			const result = await kvs.transaction(async (tx) => {
+				tx.set("theme.color", tx.get<string>("color.name"));
+				tx.unset("color");
+				tx.set("size", 2);
+				return tx.has("theme.color");
+			});
+
+			expect(result).toBe(true);
+			expect(saveSpy).toHaveBeenCalledTimes(1);
+			expect(await kvs.get()).toEqual({ theme: { color: "sapphire" }, size: 2 });
+		});
+
+		it("should discard every operation if the function throws", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "transaction-throw.json" });
+			await kvs.set("a", 1);
+
+			await expect(
+				kvs.transaction((tx) => {
+					tx.set("a", 2);
+					tx.set("b", 3);
+					throw new Error("boom");
+				})
+			).rejects.toThrow("boom");
+			expect(() =>
+				kvs.transactionSync((tx) => {
+					tx.unset();
+					throw new Error("boom");
+				})
+			).toThrow("boom");
+
+			expect(await kvs.get()).toEqual({ a: 1 });
+		});
+
+		it("should run synchronous transactions", () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "transaction-sync.json" });
+			kvs.setSync({ a: 1, b: 2 });
+
+			const total = kvs.transactionSync((tx) => {
+				tx.set({ c: tx.get<number>("a") + tx.get<number>("b") });
+				tx.set("d", 4);
+				return tx.get<number>("c");
+			});
+
+			expect(total).toBe(3);
+			expect(kvs.getSync()).toEqual({ c: 3, d: 4 });
+			expect(() => kvs.transactionSync(async () => undefined)).toThrow("transactionSync() requires a synchronous function");
+		});
+
+		it("should not leave the promise of an async transactionSync function unhandled", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "transaction-sync-async.json" });
+			const unhandled = vi.fn();
+			process.on("unhandledRejection", unhandled);
+
+			try {
+				expect(() =>
+					kvs.transactionSync(async () => {
+						throw new Error("async failure");
+					})
+				).toThrow("transactionSync() requires a synchronous function");
+				await new Promise((resolve) => setTimeout(resolve, 10));
+
+				expect(unhandled).not.toHaveBeenCalled();
+			} finally {
+				process.off("unhandledRejection", unhandled);
+			}
+		});
+
+		it("should not write when nothing changed", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "transaction-read.json" });
+			await kvs.set("a", 1);
+			const saveSpy = vi.spyOn(kvs["adapter"], "save");
+
+			expect(await kvs.transaction((tx) => tx.get("a"))).toBe(1);
+			expect(saveSpy).not.toHaveBeenCalled();
+		});
+
+		it("should notify the subscribers once", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "transaction-events.json" });
+			await kvs.set("a", 1);
+			const callback = vi.fn();
+			kvs.onDidAnyChange(callback);
+
+			await kvs.transaction((tx) => {
+				tx.set("a", 2);
+				tx.set("b", 3);
+			});
+
+			expect(callback).toHaveBeenCalledTimes(1);
+			expect(callback).toHaveBeenCalledWith({ a: 2, b: 3 }, { a: 1 }, ["a", "b"]);
+		});
+	});
+
+	describe("Batch Methods", () => {
+		it("should get many values with a single read", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "batch-get.json" });
+			await kvs.set({ color: { name: "sapphire" }, window: { width: 800 } });
+			const loadSpy = vi.spyOn(kvs["adapter"], "load");
+
+			expect(await kvs.getMany(["color.name", ["window", "width"], "missing"])).toEqual({ "color.name": "sapphire", "window.width": 800, missing: undefined });
+			expect(loadSpy).toHaveBeenCalledTimes(1);
+			expect(kvs.getManySync(["color"])).toEqual({ color: { name: "sapphire" } });
+		});
+
+		it("should merge many values with a single write", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "batch-set.json" });
+			await kvs.set({ color: { name: "sapphire" }, size: 1 });
+			const saveSpy = vi.spyOn(kvs["adapter"], "save");
+
+			await kvs.setMany({ "color.hue": "bluish", "window.width": 800 });
+
+			expect(saveSpy).toHaveBeenCalledTimes(1);
+			expect(await kvs.get()).toEqual({ color: { name: "sapphire", hue: "bluish" }, size: 1, window: { width: 800 } });
+
+			kvs.setManySync([
+				[["window", "height"], 600],
+				["size", 2],
+			]);
+			expect(kvs.getSync()).toEqual({ color: { name: "sapphire", hue: "bluish" }, size: 2, window: { width: 800, height: 600 } });
+		});
+
+		it("should unset many values with a single write", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "batch-unset.json" });
+			await kvs.set({ a: 1, b: { c: 2, d: 3 }, e: 4 });
+			const saveSpy = vi.spyOn(kvs["adapter"], "save");
+
+			expect(await kvs.unsetMany(["a", ["b", "c"], "missing"])).toBe(true);
+			expect(saveSpy).toHaveBeenCalledTimes(1);
+			expect(await kvs.get()).toEqual({ b: { d: 3 }, e: 4 });
+
+			expect(kvs.unsetManySync(["missing"])).toBe(false);
+			expect(kvs.unsetManySync(["e"])).toBe(true);
+			expect(kvs.getSync()).toEqual({ b: { d: 3 } });
+		});
+	});
+
+	describe("Update", () => {
+		it("should apply the updater to the current value", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "update.json" });
+
+			expect(await kvs.update<number>("launches", (count = 0) => count + 1)).toBe(1);
+			expect(await kvs.update<number>("launches", (count = 0) => count + 1)).toBe(2);
+			expect(kvs.updateSync<string[]>("recent", (files = []) => [...files, "a.txt"])).toEqual(["a.txt"]);
+
+			expect(await kvs.get()).toEqual({ launches: 2, recent: ["a.txt"] });
+		});
+
+		it("should support async updaters without losing concurrent updates", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "update-async.json" });
+
+			await Promise.all(
+				Array.from({ length: 5 }, () =>
+					kvs.update<number>("count", async (count = 0) => {
+						await new Promise((resolve) => setTimeout(resolve, 5));
+						return count + 1;
+					})
+				)
+			);
+
+			expect(await kvs.get("count")).toBe(5);
+		});
+
+		it("should skip the write when the value is unchanged", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "update-same.json" });
+			await kvs.set("user", { name: "John" });
+			const saveSpy = vi.spyOn(kvs["adapter"], "save");
+			const saveSyncSpy = vi.spyOn(kvs["adapter"], "saveSync");
+
+			await kvs.update<{ name: string }>("user", (user) => ({ name: user?.name ?? "" }));
+			kvs.updateSync("user", (user) => user as ValueType);
+
+			expect(saveSpy).not.toHaveBeenCalled();
+			expect(saveSyncSpy).not.toHaveBeenCalled();
+		});
+
+		it("should save values mutated in place", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "update-mutate.json" });
+			await kvs.set("tags", ["a"]);
+
+			await kvs.update<string[]>("tags", (tags = []) => {
+				tags.push("b");
+				return tags;
+			});
+
+			expect(await kvs.get("tags")).toEqual(["a", "b"]);
+		});
+
+		it("should reject async updaters in updateSync", () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "update-sync.json" });
+
+			expect(() => kvs.updateSync("a", (async () => 1) as unknown as () => number)).toThrow("updateSync() requires a synchronous updater");
+		});
+
+		it("should not leave the promise of an async updater unhandled in updateSync", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "update-sync-async.json" });
+			const updater = async (): Promise<number> => {
+				throw new Error("async failure");
+			};
+			const unhandled = vi.fn();
+			process.on("unhandledRejection", unhandled);
+
+			try {
+				expect(() => kvs.updateSync("a", updater as unknown as () => number)).toThrow("updateSync() requires a synchronous updater");
+				await new Promise((resolve) => setTimeout(resolve, 10));
+
+				expect(unhandled).not.toHaveBeenCalled();
+			} finally {
+				process.off("unhandledRejection", unhandled);
+			}
+		});
+	});
+
+	describe("Atomic Operations", () => {
+		it("should increment and decrement numbers", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "ops-numbers.json" });
+
+			expect(await kvs.increment("launches")).toBe(1);
+			expect(await kvs.increment("launches", 10)).toBe(11);
+			expect(await kvs.decrement("launches")).toBe(10);
+			expect(kvs.incrementSync("stats.count", 2)).toBe(2);
+			expect(kvs.decrementSync("stats.count", 5)).toBe(-3);
+
+			expect(await kvs.get()).toEqual({ launches: 10, stats: { count: -3 } });
+		});
+
+		it("should not lose concurrent increments", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "ops-concurrent.json" });
+
+			await Promise.all(Array.from({ length: 10 }, () => kvs.increment("count")));
+
+			expect(await kvs.get("count")).toBe(10);
+		});
+
+		it("should not create an empty array when there is nothing to change", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "atomic-absent.json" });
+			await kvs.set("x", 1);
+
+			expect(await kvs.pull("list", 1)).toEqual([]);
+			expect(kvs.pullSync("list", 1)).toEqual([]);
+			expect(await kvs.addToSet("list")).toEqual([]);
+			expect(kvs.addToSetSync("list")).toEqual([]);
+			expect(await kvs.push("list")).toEqual([]);
+			expect(kvs.pushSync("list")).toEqual([]);
+
+			expect(JSON.parse(await fs.readFile(kvs.file(), "utf-8"))).toEqual({ x: 1 });
+		});
+
+		it("should push, pull and add to sets", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "ops-arrays.json" });
+
+			expect(await kvs.push("recent", "a.txt", "b.txt")).toEqual(["a.txt", "b.txt"]);
+			expect(kvs.pushSync("recent", "a.txt")).toEqual(["a.txt", "b.txt", "a.txt"]);
+			expect(await kvs.pull("recent", "a.txt")).toEqual(["b.txt"]);
+
+			await kvs.push("users", { name: "John", active: false }, { name: "Jane", active: true });
+			expect(kvs.pullSync<{ name: string; active: boolean }>("users", (user) => !user.active)).toEqual([{ name: "Jane", active: true }]);
+
+			expect(await kvs.addToSet("tags", "work", "urgent", "work")).toEqual(["work", "urgent"]);
+			expect(kvs.addToSetSync("tags", "work", "home")).toEqual(["work", "urgent", "home"]);
+			expect(await kvs.addToSet("points", { x: 1 })).toEqual([{ x: 1 }]);
+			expect(await kvs.addToSet("points", { x: 1 })).toEqual([{ x: 1 }]);
+		});
+
+		it("should toggle booleans", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "ops-toggle.json" });
+
+			expect(await kvs.toggle("darkMode")).toBe(true);
+			expect(await kvs.toggle("darkMode")).toBe(false);
+			expect(kvs.toggleSync("darkMode")).toBe(true);
+		});
+
+		it("should throw a ValueTypeError on a value of the wrong type", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "ops-types.json" });
+			await kvs.set({ name: "John", tags: { a: 1 }, flag: "yes" });
+
+			const error = await kvs.increment("name").catch((e) => e);
+			expect(error).toBeInstanceOf(ValueTypeError);
+			expect(error).toBeInstanceOf(TypeError);
+			expect(error).toMatchObject({ keyPath: "name", expected: "number", actual: "string" });
+			expect(error.message).toBe('Failed to increment: expected number at "name" but found string');
+
+			await expect(kvs.push(["tags"], "x")).rejects.toThrow('Failed to push: expected array at "tags" but found object');
+			expect(() => kvs.pullSync("name", "J")).toThrow(ValueTypeError);
+			expect(() => kvs.addToSetSync("flag", "x")).toThrow(ValueTypeError);
+			expect(() => kvs.toggleSync("flag")).toThrow('Failed to toggle: expected boolean at "flag" but found string');
+			expect(await kvs.get()).toEqual({ name: "John", tags: { a: 1 }, flag: "yes" });
+		});
+
+		it("should reject an amount that is not a finite number", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "ops-amount.json" });
+
+			await expect(kvs.increment("a", Number.NaN)).rejects.toThrow("Failed to increment: NaN is not a finite number");
+			expect(() => kvs.decrementSync("a", Number.POSITIVE_INFINITY)).toThrow("is not a finite number");
+		});
+	});
+
+	describe("Queries", () => {
+		const data = {
+			users: { john: { email: "john@mail.com", age: 30 }, jane: { email: "jane@mail.com" }, bob: { age: 40 } },
+			plugins: { git: { enabled: true }, lint: { eslint: { enabled: false }, biome: { enabled: true } } },
+			tags: [{ name: "a" }, { name: "b" }],
+		};
+
+		it("should query values matching a single key wildcard", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "query-single.json" });
+			await kvs.set(data);
+
+			expect(await kvs.query("users.*.email")).toEqual({ "users.john.email": "john@mail.com", "users.jane.email": "jane@mail.com" });
+			expect(kvs.querySync("tags.*.name")).toEqual({ "tags.0.name": "a", "tags.1.name": "b" });
+			expect(await kvs.query("missing.*")).toEqual({});
+		});
+
+		it("should query values matching a deep wildcard", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "query-deep.json" });
+			await kvs.set(data);
+
+			expect(await kvs.query("plugins.**.enabled")).toEqual({
+				"plugins.git.enabled": true,
+				"plugins.lint.eslint.enabled": false,
+				"plugins.lint.biome.enabled": true,
+			});
+			expect(Object.keys(kvs.querySync("**.age"))).toEqual(["users.john.age", "users.bob.age"]);
+		});
+
+		it("should set every matching value in a single write", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "query-set.json" });
+			await kvs.set(data);
+			const saveSpy = vi.spyOn(kvs["adapter"], "save");
+
+			expect(await kvs.setMatching("plugins.**.enabled", false)).toEqual(["plugins.git.enabled", "plugins.lint.eslint.enabled", "plugins.lint.biome.enabled"]);
+			expect(saveSpy).toHaveBeenCalledTimes(1);
+			expect(await kvs.query("plugins.**.enabled")).toEqual({
+				"plugins.git.enabled": false,
+				"plugins.lint.eslint.enabled": false,
+				"plugins.lint.biome.enabled": false,
+			});
+
+			expect(kvs.setMatchingSync<number>("users.*.age", (age, keyPath) => (keyPath === "users.bob.age" ? age : age + 1))).toEqual(["users.john.age", "users.bob.age"]);
+			expect(await kvs.get("users")).toEqual({ john: { email: "john@mail.com", age: 31 }, jane: { email: "jane@mail.com" }, bob: { age: 40 } });
+
+			expect(await kvs.setMatching("missing.*", 1)).toEqual([]);
+			expect(saveSpy).toHaveBeenCalledTimes(1);
+		});
+
+		it("should unset every matching property in a single write", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "query-unset.json" });
+			await kvs.set(data);
+			const saveSpy = vi.spyOn(kvs["adapter"], "save");
+
+			expect(await kvs.unsetMatching("users.*.email")).toEqual(["users.john.email", "users.jane.email"]);
+			expect(saveSpy).toHaveBeenCalledTimes(1);
+			expect(await kvs.get("users")).toEqual({ john: { age: 30 }, jane: {}, bob: { age: 40 } });
+
+			expect(kvs.unsetMatchingSync("plugins.lint.*")).toEqual(["plugins.lint.eslint", "plugins.lint.biome"]);
+			expect(await kvs.get("plugins")).toEqual({ git: { enabled: true }, lint: {} });
+
+			expect(await kvs.unsetMatching("missing.**")).toEqual([]);
+			expect(saveSpy).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe("Enumeration", () => {
+		const data = {
+			color: { name: "cerulean" },
+			plugins: { git: { enabled: true }, lint: { eslint: { enabled: false } } },
+			tags: ["a", "b"],
+			empty: {},
+		};
+
+		it("should list keys, values, entries and size", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "enum-top.json" });
+			await kvs.set(data);
+
+			expect(await kvs.keys()).toEqual(["color", "plugins", "tags", "empty"]);
+			expect(await kvs.values()).toEqual(Object.values(data));
+			expect(await kvs.entries()).toEqual(Object.entries(data));
+			expect(await kvs.size()).toBe(4);
+
+			expect(await kvs.keys("plugins")).toEqual(["git", "lint"]);
+			expect(await kvs.entries("tags")).toEqual([
+				["0", "a"],
+				["1", "b"],
+			]);
+			expect(await kvs.size(["color", "name"])).toBe(0);
+			expect(await kvs.keys("missing")).toEqual([]);
+		});
+
+		it("should list leaf key paths recursively", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "enum-recursive.json" });
+			await kvs.set(data);
+
+			expect(await kvs.keys({ recursive: true })).toEqual(["color.name", "plugins.git.enabled", "plugins.lint.eslint.enabled", "tags.0", "tags.1", "empty"]);
+			expect(await kvs.entries("plugins", { recursive: true })).toEqual([
+				["git.enabled", true],
+				["lint.eslint.enabled", false],
+			]);
+			expect(await kvs.values("plugins", { recursive: true })).toEqual([true, false]);
+			expect(await kvs.size({ recursive: true })).toBe(6);
+		});
+
+		it("should enumerate synchronously", () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "enum-sync.json" });
+			kvs.setSync(data);
+
+			expect(kvs.keysSync()).toEqual(["color", "plugins", "tags", "empty"]);
+			expect(kvs.valuesSync("color")).toEqual(["cerulean"]);
+			expect(kvs.entriesSync("plugins.lint", { recursive: true })).toEqual([["eslint.enabled", false]]);
+			expect(kvs.sizeSync("tags")).toBe(2);
+		});
+
+		it("should hide internal metadata, expired values and include defaults", async () => {
+			vi.useFakeTimers({ toFake: ["Date"] });
+			try {
+				const kvs = new KeyValues({ dir: TEST_DIR, fileName: "enum-view.json", defaults: { theme: "dark" } });
+				await kvs.set("token", "abc", { ttl: 1000 });
+				await kvs.set("user", "john");
+
+				expect(await kvs.keys()).toEqual(["theme", "token", "user"]);
+				vi.advanceTimersByTime(1000);
+				expect(await kvs.keys()).toEqual(["theme", "user"]);
+			} finally {
+				vi.useRealTimers();
+			}
+		});
+
+		it("should iterate over the entries", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "enum-iterate.json" });
+			await kvs.set({ a: 1, b: { c: 2 } });
+
+			const entries: Array<[string, unknown]> = [];
+			for await (const [key, value] of kvs) entries.push([key, value]);
+			expect(entries).toEqual([
+				["a", 1],
+				["b", { c: 2 }],
+			]);
+
+			expect([...kvs]).toEqual(entries);
+			expect(new Map(kvs).get("a")).toBe(1);
+		});
+	});
+
+	describe("Scopes", () => {
+		it("should resolve key paths relative to the prefix", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "scope-paths.json" });
+			await kvs.set({ theme: "dark", plugins: { git: { enabled: true } } });
+			const markdown = kvs.scope("plugins.markdown");
+
+			await markdown.set("enabled", true);
+			markdown.setSync(["options", "tabSize"], 2);
+
+			expect(markdown.prefix).toEqual(["plugins", "markdown"]);
+			expect(await markdown.get()).toEqual({ enabled: true, options: { tabSize: 2 } });
+			expect(markdown.getSync("options.tabSize")).toBe(2);
+			expect(await markdown.has("enabled")).toBe(true);
+			expect(markdown.hasSync("git")).toBe(false);
+			expect(await kvs.get("plugins")).toEqual({ git: { enabled: true }, markdown: { enabled: true, options: { tabSize: 2 } } });
+		});
+
+		it("should replace and unset the subtree only", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "scope-subtree.json" });
+			await kvs.set({ theme: "dark", plugins: { git: { enabled: true }, markdown: { enabled: true } } });
+			const markdown = kvs.scope(["plugins", "markdown"]);
+
+			await markdown.set({ preview: false });
+			expect(await kvs.get("plugins.markdown")).toEqual({ preview: false });
+
+			expect(await markdown.unset("preview")).toBe(true);
+			expect(await kvs.get("plugins.markdown")).toEqual({});
+
+			expect(markdown.unsetSync()).toBe(true);
+			expect(await kvs.get()).toEqual({ theme: "dark", plugins: { git: { enabled: true } } });
+		});
+
+		it("should support nested scopes and ttl", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "scope-nested.json" });
+			const options = kvs.scope("plugins").scope("markdown.options");
+
+			await options.set("tabSize", 4, { ttl: 60_000 });
+
+			expect(options.prefix).toEqual(["plugins", "markdown", "options"]);
+			expect(await kvs.get("plugins.markdown.options.tabSize")).toBe(4);
+		});
+
+		it("should throw on an empty prefix", () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "scope-empty.json" });
+
+			expect(() => kvs.scope("")).toThrow("Invalid scope: the key path is empty");
+			expect(() => kvs.scope([])).toThrow("Invalid scope: the key path is empty");
+		});
+	});
+
+	describe("Typed Schema", () => {
+		type Settings = { window: { width: number; height: number }; theme?: "dark" | "light"; recent: string[] };
+
+		it("should type key paths and values after the schema", async () => {
+			const kvs = new KeyValues<Settings>({ dir: TEST_DIR, fileName: "typed.json" });
+
+			await kvs.set({ window: { width: 800, height: 600 }, recent: ["a.txt"] });
+			kvs.setSync("theme", "dark");
+			await kvs.set(["window", "width"], 1024);
+
+			const width = await kvs.get("window.width");
+			expectTypeOf(width).toEqualTypeOf<number>();
+			expect(width).toBe(1024);
+
+			const recent = kvs.getSync("recent.0");
+			expectTypeOf(recent).toEqualTypeOf<string>();
+			expect(recent).toBe("a.txt");
+
+			expectTypeOf(await kvs.get("theme")).toEqualTypeOf<"dark" | "light" | undefined>();
+			expectTypeOf(await kvs.get()).toEqualTypeOf<Settings>();
+			expect(await kvs.update("window.height", (height = 0) => height + 1)).toBe(601);
+			expect(await kvs.has("theme")).toBe(true);
+			expect(await kvs.unset("theme")).toBe(true);
+		});
+
+		it("should reject key paths and values outside the schema at compile time", async () => {
+			const kvs = new KeyValues<Settings>({ dir: TEST_DIR, fileName: "typed-errors.json" });
+
+			// @ts-expect-error unknown key path
+			await kvs.get("window.depth");
+			// @ts-expect-error wrong value type
+			await kvs.set("window.width", "wide");
+			// @ts-expect-error value outside the union
+			kvs.setSync("theme", "blue");
+			// @ts-expect-error unknown key path
+			expect(await kvs.has(["window", "depth"])).toBe(false);
+			// @ts-expect-error unknown key path
+			await kvs.increment("window.widht");
+			// @ts-expect-error unknown key path
+			await kvs.reset("nope");
+			// @ts-expect-error unknown key path
+			await kvs.getMany(["nope"]);
+			// @ts-expect-error unknown key path
+			kvs.keysSync("nope");
+			// @ts-expect-error unknown key path
+			kvs.scope("nope");
+			// @ts-expect-error wrong value type
+			await kvs.setMany({ "window.width": "x" });
+			// @ts-expect-error wrong value type
+			kvs.setManySync([[["window", "height"], "x"]]);
+			// @ts-expect-error wrong item type
+			await kvs.push("recent", 1);
+		});
+
+		it("should type the key paths of the other methods after the schema", async () => {
+			const kvs = new KeyValues<Settings>({ dir: TEST_DIR, fileName: "typed-methods.json" });
+			await kvs.set({ window: { width: 800, height: 600 }, recent: [] });
+
+			const recent = await kvs.push("recent", "a.txt", "b.txt");
+			expectTypeOf(recent).toEqualTypeOf<string[]>();
+			expectTypeOf(kvs.pullSync("recent", (file) => file === "b.txt")).toEqualTypeOf<string[]>();
+			expect(await kvs.addToSet("recent", "a.txt", "c.txt")).toEqual(["a.txt", "c.txt"]);
+			expect(await kvs.increment("window.width")).toBe(801);
+
+			await kvs.setMany({ "window.height": 720, "recent.0": "d.txt" });
+			kvs.setManySync([[["window", "width"], 1024]]);
+
+			expect(await kvs.getMany(["window.width", ["window", "height"]])).toEqual({ "window.width": 1024, "window.height": 720 });
+			expect(kvs.keysSync("window")).toEqual(["width", "height"]);
+			expect(await kvs.size("recent")).toBe(2);
+			expect(kvs.scope("window").getSync("width")).toBe(1024);
+			expect(await kvs.unsetMany(["recent", ["window", "height"]])).toBe(true);
+		});
+
+		it("should keep untyped usage working", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "untyped.json" });
+
+			await kvs.set("any.path", 1);
+			expectTypeOf(await kvs.get<number>("any.path")).toEqualTypeOf<number>();
+			expectTypeOf(await kvs.get("any.path")).toEqualTypeOf<ValueType>();
+			expect(await kvs.get("any.path")).toBe(1);
+			expectTypeOf(await kvs.push<string>("any.list", "a")).toEqualTypeOf<string[]>();
+			kvs.pushSync("any.list", "b");
+			expect(await kvs.getMany(["any.path", "any.list"])).toEqual({ "any.path": 1, "any.list": ["a", "b"] });
+		});
+	});
+
+	describe("Rich Types", () => {
+		class Point {
+			constructor(
+				readonly x: number,
+				readonly y: number
+			) {}
+		}
+
+		const values = {
+			createdAt: new Date("2024-01-02T03:04:05.000Z"),
+			ids: new Set([1, 2, 3]),
+			windows: new Map<string, unknown>([["main", { width: 800 }]]),
+			size: BigInt("9007199254740993"),
+			avatar: Buffer.from("hello"),
+		};
+
+		it("should round-trip built-in types when enabled", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "rich.json", richTypes: true });
+			await kvs.set(values);
+
+			const content = JSON.parse(await fs.readFile(kvs.file(), "utf-8"));
+			expect(content.createdAt).toEqual({ __type__: "Date", value: "2024-01-02T03:04:05.000Z" });
+			expect(content.size).toEqual({ __type__: "BigInt", value: "9007199254740993" });
+
+			const reloaded = new KeyValues({ dir: TEST_DIR, fileName: "rich.json", richTypes: true });
+			expect(await reloaded.get()).toEqual(values);
+			expect(reloaded.getSync("createdAt")).toBeInstanceOf(Date);
+			expect(reloaded.getSync<Map<string, unknown>>("windows").get("main")).toEqual({ width: 800 });
+		});
+
+		it("should round-trip rich types in YAML files", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "rich.yaml", richTypes: true });
+			kvs.setSync(values);
+
+			const reloaded = new KeyValues({ dir: TEST_DIR, fileName: "rich.yaml", richTypes: true });
+			expect(reloaded.getSync()).toEqual(values);
+		});
+
+		it("should use the registered serializers", async () => {
+			const serializers = {
+				Point: { type: Point, serialize: (point: Point) => [point.x, point.y], deserialize: ([x, y]: number[]) => new Point(x, y) },
+			};
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "rich-custom.json", richTypes: true, serializers });
+			await kvs.set("shapes", new Map([["origin", new Point(0, 0)]]));
+
+			const content = JSON.parse(await fs.readFile(kvs.file(), "utf-8"));
+			expect(content.shapes.value).toEqual([["origin", { __type__: "Point", value: [0, 0] }]]);
+
+			const reloaded = new KeyValues({ dir: TEST_DIR, fileName: "rich-custom.json", richTypes: true, serializers });
+			const origin = (await reloaded.get<Map<string, Point>>("shapes")).get("origin");
+			expect(origin).toBeInstanceOf(Point);
+			expect(origin).toEqual(new Point(0, 0));
+		});
+
+		it("should keep plain objects owning the type key", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "rich-escape.json", richTypes: true });
+			await kvs.set("tagged", { __type__: "Date", value: "not a date" });
+
+			const reloaded = new KeyValues({ dir: TEST_DIR, fileName: "rich-escape.json", richTypes: true });
+			expect(await reloaded.get("tagged")).toEqual({ __type__: "Date", value: "not a date" });
+		});
+
+		it("should write plain JSON when disabled", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "rich-disabled.json" });
+			await kvs.set("createdAt", values.createdAt);
+
+			const reloaded = new KeyValues({ dir: TEST_DIR, fileName: "rich-disabled.json" });
+			expect(await reloaded.get("createdAt")).toBe("2024-01-02T03:04:05.000Z");
+			await expect(kvs.set("size", values.size)).rejects.toThrow(TypeError);
+		});
+	});
+
+	describe("Write Delay", () => {
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it("should coalesce changes into a single write after the delay", async () => {
+			vi.useFakeTimers();
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "delay.json", writeDelay: 100 });
+			const saveSpy = vi.spyOn(kvs["adapter"], "save");
+			const saveSyncSpy = vi.spyOn(kvs["adapter"], "saveSync");
+
+			await kvs.set("volume", 1);
+			kvs.setSync("volume", 2);
+			await kvs.increment("ticks");
+
+			expect(await kvs.get()).toEqual({ volume: 2, ticks: 1 });
+			expect(saveSpy).not.toHaveBeenCalled();
+			expect(saveSyncSpy).not.toHaveBeenCalled();
+
+			await vi.advanceTimersByTimeAsync(100);
+			expect(saveSpy).toHaveBeenCalledTimes(1);
+
+			await kvs.flush();
+			expect(saveSpy).toHaveBeenCalledTimes(1);
+			expect(JSON.parse(await fs.readFile(kvs.file(), "utf-8"))).toEqual({ volume: 2, ticks: 1 });
+		});
+
+		it("should restart the delay with each change", async () => {
+			vi.useFakeTimers();
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "delay-restart.json", writeDelay: 100 });
+			const saveSpy = vi.spyOn(kvs["adapter"], "save");
+
+			await kvs.set("volume", 1);
+			await vi.advanceTimersByTimeAsync(60);
+			await kvs.set("volume", 2);
+			await vi.advanceTimersByTimeAsync(60);
+			expect(saveSpy).not.toHaveBeenCalled();
+
+			await vi.advanceTimersByTimeAsync(40);
+			expect(saveSpy).toHaveBeenCalledTimes(1);
+			await kvs.flush();
+		});
+
+		it("should not write the pending changes while a queued task runs", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "delay-task.json", writeDelay: 10 });
+			const saveSpy = vi.spyOn(kvs["adapter"], "save");
+
+			await kvs.withLock(async () => {
+				await kvs.set("volume", 1);
+				await new Promise((resolve) => setTimeout(resolve, 50));
+				expect(saveSpy).not.toHaveBeenCalled();
+			});
+			await kvs.flush();
+
+			expect(saveSpy).toHaveBeenCalledTimes(1);
+			expect(JSON.parse(await fs.readFile(kvs.file(), "utf-8"))).toEqual({ volume: 1 });
+		});
+
+		it("should write the pending changes on flush", async () => {
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "delay-flush.json", writeDelay: 60_000 });
+			const other = new KeyValues({ dir: TEST_DIR, fileName: "delay-flush.json" });
+
+			await kvs.set("volume", 1);
+			expect(await other.get("volume")).toBeUndefined();
+
+			await kvs.flush();
+			expect(await other.get("volume")).toBe(1);
+
+			kvs.setSync("volume", 2);
+			kvs.flushSync();
+			expect(other.getSync("volume")).toBe(2);
+
+			const saveSpy = vi.spyOn(kvs["adapter"], "save");
+			await kvs.flush();
+			expect(saveSpy).not.toHaveBeenCalled();
+		});
+
+		it("should flush the pending changes when the process exits", async () => {
+			const listeners = process.listenerCount("exit");
+			const kvs = new KeyValues({ dir: TEST_DIR, fileName: "delay-exit.json", writeDelay: 60_000 });
+
+			await kvs.set("volume", 3);
+			expect(process.listenerCount("exit")).toBe(listeners + 1);
+
+			const [flushOnExit] = process.listeners("exit").slice(-1);
+			flushOnExit(0);
+
+			expect(JSON.parse(await fs.readFile(kvs.file(), "utf-8"))).toEqual({ volume: 3 });
+			expect(process.listenerCount("exit")).toBe(listeners);
+		});
+
+		it("should share a single exit listener between instances", async () => {
+			const listeners = process.listenerCount("exit");
+			const instances = Array.from({ length: 12 }, (_, i) => new KeyValues({ dir: TEST_DIR, fileName: `delay-many-${i}.json`, writeDelay: 60_000 }));
+
+			for (const kvs of instances) await kvs.set("volume", 1);
+			expect(process.listenerCount("exit")).toBe(listeners + 1);
+
+			for (const kvs of instances) await kvs.flush();
+			expect(process.listenerCount("exit")).toBe(listeners);
+		});
+
+		it("should write the pending changes before another instance changes the same file", async () => {
+			const delayed = new KeyValues({ dir: TEST_DIR, fileName: "delay-shared.json", writeDelay: 60_000 });
+			const other = new KeyValues({ dir: TEST_DIR, fileName: "delay-shared.json" });
+
+			await delayed.set("a", 1);
+			await other.set("b", 2);
+			await delayed.flush();
+			expect(JSON.parse(await fs.readFile(other.file(), "utf-8"))).toEqual({ a: 1, b: 2 });
+
+			delayed.setSync("c", 3);
+			other.setSync("d", 4);
+			await delayed.set("e", 5);
+			delayed.flushSync();
+			expect(other.getSync()).toEqual({ a: 1, b: 2, c: 3, d: 4, e: 5 });
+		});
+	});
+
 	it("should handle prettify option correctly", async () => {
 		const kvs = new KeyValues({
 			dir: TEST_DIR,